@@ -0,0 +1,48 @@
+/**
+ * Public API for other plugins and scripts (Linter, Templater, QuickAdd, ...):
+ *
+ *   const api = app.plugins.plugins['smart-spacing-chinese']?.api;
+ *   const formatted = api?.format(text, { useZeroWidthSpace: true });
+ */
+
+import { TFile } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+import { parseSpacingSettings } from './config';
+import { SpacingDiagnostic, lintText } from './lint';
+import { SmartSpacingSettings, processText } from './processor';
+
+export interface SmartSpacingApi {
+	// Increased when a method changes incompatibly
+	readonly version: number;
+	/**
+	 * Format a string with the plugin's settings. With a note path, the profile and
+	 * frontmatter overrides of that note apply as well; overrides are applied last.
+	 * Throws if an override has an invalid value.
+	 */
+	format(text: string, overrides?: Partial<SmartSpacingSettings>, path?: string): string;
+	/**
+	 * The problems format would fix, plus emphasis markers it leaves untouched
+	 */
+	lint(text: string, overrides?: Partial<SmartSpacingSettings>, path?: string): SpacingDiagnostic[];
+	/**
+	 * A copy of the settings used for a note (or the global settings without a path)
+	 */
+	getSettings(path?: string): SmartSpacingSettings;
+}
+
+export const API_VERSION = 1;
+
+export function createApi(plugin: SmartSpacingPlugin): SmartSpacingApi {
+	const getSettings = (overrides?: Partial<SmartSpacingSettings>, path?: string): SmartSpacingSettings => {
+		const file = path ? plugin.app.vault.getAbstractFileByPath(path) : null;
+		const noteSettings = plugin.getNoteSettings(file instanceof TFile ? file : null);
+		return parseSpacingSettings({ ...noteSettings, ...overrides });
+	};
+
+	return {
+		version: API_VERSION,
+		format: (text, overrides, path) => processText(text, getSettings(overrides, path)),
+		lint: (text, overrides, path) => lintText(text, getSettings(overrides, path)),
+		getSettings: path => getSettings(undefined, path),
+	};
+}
@@ -0,0 +1,99 @@
+/**
+ * Format-as-you-type support for Smart Spacing Plugin
+ */
+
+import { Extension } from '@codemirror/state';
+import { EditorView, PluginValue, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+
+// Typing one of these characters may close an emphasis span, so the line is re-checked
+const TRIGGER_CHARACTERS = ['*', '_', '~', '=', '`'];
+
+/**
+ * Create the editor extension that fixes a line when the user types a closing
+ * marker on it or leaves it after editing. Checks are debounced by the configured delay.
+ */
+export function createFormatOnTypeExtension(plugin: SmartSpacingPlugin): Extension {
+	return ViewPlugin.define(view => new FormatOnTypePlugin(view, plugin));
+}
+
+class FormatOnTypePlugin implements PluginValue {
+	// Document position on the line the user is currently editing
+	private editedPos: number | null = null;
+	// Positions on lines waiting to be formatted, mapped through every change
+	private pending: number[] = [];
+	private timer: number | null = null;
+
+	constructor(private readonly view: EditorView, private readonly plugin: SmartSpacingPlugin) {}
+
+	update(update: ViewUpdate): void {
+		if (!this.plugin.settings.formatOnType || this.plugin.autoFormatPaused) return;
+
+		if (update.docChanged) {
+			this.pending = this.pending.map(pos => update.changes.mapPos(pos));
+			if (this.editedPos !== null) this.editedPos = update.changes.mapPos(this.editedPos);
+		}
+
+		const state = update.state;
+		const head = state.selection.main.head;
+		const cursorLine = state.doc.lineAt(head).number;
+		const leftEditedLine = this.editedPos !== null && state.doc.lineAt(this.editedPos).number !== cursorLine;
+
+		const isUserEdit = update.transactions.some(tr => tr.isUserEvent('input') || tr.isUserEvent('delete'));
+		if (update.docChanged && isUserEdit) {
+			if (leftEditedLine && this.editedPos !== null) {
+				// e.g. Enter was pressed at the end of the edited line
+				this.schedule(this.editedPos);
+			}
+			this.editedPos = head;
+			if (TRIGGER_CHARACTERS.includes(state.sliceDoc(head - 1, head))) {
+				this.schedule(head);
+			}
+		} else if (update.selectionSet && leftEditedLine && this.editedPos !== null) {
+			this.schedule(this.editedPos);
+			this.editedPos = null;
+		}
+	}
+
+	destroy(): void {
+		this.clearTimer();
+	}
+
+	private schedule(pos: number): void {
+		this.pending.push(pos);
+		this.startTimer();
+	}
+
+	private startTimer(): void {
+		this.clearTimer();
+		// Editor changes can't be dispatched while CodeMirror is applying an update
+		this.timer = window.setTimeout(() => this.flush(), this.plugin.settings.formatOnTypeDelay);
+	}
+
+	private flush(): void {
+		this.timer = null;
+		// Changing the document would cancel the IME composition the user is typing in
+		if (this.view.composing || this.view.compositionStarted) {
+			this.startTimer();
+			return;
+		}
+		const info = this.view.state.field(editorInfoField, false);
+		const positions = this.pending;
+		this.pending = [];
+		if (!info?.editor || !info.file || this.plugin.isAutoFormatDisabled(info.file)) return;
+
+		const doc = this.view.state.doc;
+		const lines = new Set(positions.map(pos => doc.lineAt(Math.min(pos, doc.length)).number - 1));
+		for (const line of lines) {
+			this.plugin.formatLine(info.editor, line, info.file);
+		}
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -0,0 +1,231 @@
+/**
+ * Vault-wide batch formatting for Smart Spacing Plugin
+ *
+ * A batch run always starts with a dry run: every note is processed in memory and the
+ * notes that would change are listed with their edit counts. Nothing is written until
+ * the report is confirmed.
+ */
+
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TAbstractFile, TFile, TFolder } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+import { computeEdits } from './diff';
+import { matchesAnyGlob } from './glob';
+import { findIntegrityProblem } from './integrity';
+import { t, tCount, translateIntegrityProblem } from './i18n';
+import { processText } from './processor';
+
+/**
+ * A note that would change, with the number of separate edits
+ */
+export interface BatchFileResult {
+	file: TFile;
+	edits: number;
+}
+
+/**
+ * Turns the content of a note into its new content
+ */
+export type BatchTransform = (content: string, file: TFile) => string;
+
+/**
+ * Dry-run every note in the folder, show the report and format the notes once it is confirmed.
+ * By default notes are formatted; another transform (e.g. zero-width space cleanup) can be given.
+ */
+export async function runBatchFormat(
+	plugin: SmartSpacingPlugin,
+	folder: TFolder,
+	transform: BatchTransform = (content, file) => processText(content, plugin.getNoteSettings(file)),
+): Promise<void> {
+	const files = getBatchFiles(plugin, folder);
+	if (files.length === 0) {
+		new Notice(t('batch.noNotes'));
+		return;
+	}
+
+	const results = await scanFiles(plugin, files, transform);
+	if (!results) return;
+	if (results.length === 0) {
+		new Notice(t('notice.noChanges', { profile: '' }));
+		return;
+	}
+
+	new BatchReportModal(plugin.app, folder, results, () => {
+		void applyBatch(plugin, results, transform);
+	}).open();
+}
+
+/**
+ * Markdown notes in the folder that pass the include/exclude globs and did not opt
+ * out via frontmatter (smart-spacing: false)
+ */
+export function getBatchFiles(plugin: SmartSpacingPlugin, folder: TFolder): TFile[] {
+	const { batchInclude, batchExclude } = plugin.settings;
+	const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+	return plugin.app.vault.getMarkdownFiles()
+		.filter(file => file.path.startsWith(prefix))
+		.filter(file => batchInclude.length === 0 || matchesAnyGlob(file.path, batchInclude))
+		.filter(file => !matchesAnyGlob(file.path, batchExclude))
+		.filter(file => !plugin.isAutoFormatDisabled(file))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Dry run: count the edits each note would get. Returns null when cancelled.
+ */
+async function scanFiles(plugin: SmartSpacingPlugin, files: TFile[], transform: BatchTransform): Promise<BatchFileResult[] | null> {
+	const progress = new BatchProgress(t('batch.checking'), files.length);
+	const results: BatchFileResult[] = [];
+	for (const [index, file] of files.entries()) {
+		if (progress.cancelled) break;
+		const content = await plugin.app.vault.cachedRead(file);
+		const edits = computeEdits(content, transform(content, file)).length;
+		if (edits > 0) results.push({ file, edits });
+		progress.update(index + 1);
+	}
+	progress.hide();
+
+	if (progress.cancelled) {
+		new Notice(t('batch.cancelled'));
+		return null;
+	}
+	return results;
+}
+
+/**
+ * Format the reported notes. The current content is processed again, so edits made
+ * since the dry run are not lost. A note is left alone when its result would change
+ * more than spacing, and snapshotted before it is written otherwise.
+ */
+async function applyBatch(plugin: SmartSpacingPlugin, results: BatchFileResult[], transform: BatchTransform): Promise<void> {
+	const progress = new BatchProgress(t('batch.formatting'), results.length);
+	const failures: string[] = [];
+	let done = 0;
+	for (const { file } of results) {
+		if (progress.cancelled) break;
+		await plugin.app.vault.process(file, data => {
+			const result = transform(data, file);
+			const problem = findIntegrityProblem(data, result);
+			if (problem) {
+				failures.push(`${file.path}, ${translateIntegrityProblem(problem)}`);
+				return data;
+			}
+			if (result !== data) void plugin.snapshots.save(file.path, data);
+			return result;
+		});
+		done++;
+		progress.update(done);
+	}
+	progress.hide();
+
+	const formatted = done - failures.length;
+	new Notice(progress.cancelled
+		? t('batch.cancelledAfter', { done: formatted, total: results.length })
+		: t('batch.fixed', { count: formatted }));
+	if (failures.length > 0) {
+		new Notice(`${t('batch.integrity', { count: failures.length })}\n${failures.join('\n')}`, 0);
+	}
+}
+
+/**
+ * Persistent notice showing "done/total" with a cancel button
+ */
+class BatchProgress {
+	cancelled = false;
+	private readonly notice: Notice;
+	private readonly countEl: HTMLElement;
+
+	constructor(label: string, private readonly total: number) {
+		const fragment = document.createDocumentFragment();
+		fragment.createDiv({ text: label });
+		this.countEl = fragment.createDiv();
+		const cancelButton = fragment.createEl('button', { text: t('cancel') });
+		cancelButton.addEventListener('click', () => {
+			this.cancelled = true;
+		});
+		this.notice = new Notice(fragment, 0);
+		this.update(0);
+	}
+
+	update(done: number): void {
+		this.countEl.setText(`${done}/${this.total}`);
+	}
+
+	hide(): void {
+		this.notice.hide();
+	}
+}
+
+/**
+ * Dry-run report: the notes that would change and how many edits each gets
+ */
+class BatchReportModal extends Modal {
+	constructor(
+		app: App,
+		private readonly folder: TFolder,
+		private readonly results: BatchFileResult[],
+		private readonly onApply: () => void,
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const totalEdits = this.results.reduce((sum, result) => sum + result.edits, 0);
+		const scope = this.folder.isRoot() ? t('batch.report.vault') : this.folder.path;
+
+		this.titleEl.setText(t('batch.report.title'));
+		contentEl.createEl('p', {
+			text: t('batch.report.summary', { count: this.results.length, scope, edits: totalEdits }),
+		});
+
+		const listEl = contentEl.createEl('ul');
+		for (const { file, edits } of this.results) {
+			const itemEl = listEl.createEl('li');
+			const linkEl = itemEl.createEl('a', { text: file.path, href: '#' });
+			linkEl.addEventListener('click', (event) => {
+				event.preventDefault();
+				void this.app.workspace.getLeaf(false).openFile(file);
+			});
+			itemEl.appendText(` — ${tCount('batch.report.edits', edits)}`);
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('cancel'))
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(t('batch.report.apply'))
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onApply();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Pick a folder for batch formatting
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	constructor(app: App, private readonly onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.setPlaceholder(t('batch.folderPlaceholder'));
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file: TAbstractFile): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? '/' : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
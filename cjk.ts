@@ -0,0 +1,72 @@
+/**
+ * Unicode script classification used by the spacing rules
+ */
+
+/**
+ * Scripts that can be configured to count as "CJK"
+ */
+export type CjkScript = 'han' | 'kana' | 'hangul';
+
+export const ALL_CJK_SCRIPTS: CjkScript[] = ['han', 'kana', 'hangul'];
+
+// Script_Extensions also covers characters such as 々 and ー that are shared between scripts
+const SCRIPT_PATTERNS: Record<CjkScript, RegExp> = {
+	han: /[\p{Script_Extensions=Han}\p{Script_Extensions=Bopomofo}]/u,
+	kana: /[\p{Script_Extensions=Hiragana}\p{Script_Extensions=Katakana}]/u,
+	hangul: /\p{Script_Extensions=Hangul}/u,
+};
+
+/**
+ * Full-width punctuation from the CJK Symbols and Punctuation, Halfwidth and Fullwidth Forms
+ * and General Punctuation (quotes, ellipsis, dashes) blocks
+ */
+const FULLWIDTH_PUNCTUATION = /^[\u3000-\u303F\uFF01-\uFF0F\uFF1A-\uFF20\uFF3B-\uFF40\uFF5B-\uFF65\u2018-\u201F\u2026\u2014]$/;
+
+/**
+ * Check whether a character belongs to one of the given CJK scripts.
+ * Only letters and numbers count, so punctuation like `，。` is never CJK.
+ * Works on full code points, so Extension B ideographs such as 𠀀 are recognized.
+ */
+export function isCjk(char: string | undefined, scripts: readonly CjkScript[] = ALL_CJK_SCRIPTS): boolean {
+	if (!char || !/^[\p{L}\p{N}]$/u.test(char)) return false;
+	return scripts.some(script => SCRIPT_PATTERNS[script].test(char));
+}
+
+export function isFullwidthPunctuation(char: string | undefined): boolean {
+	// 々 and 〇 live in the punctuation block but are letters
+	return !!char && FULLWIDTH_PUNCTUATION.test(char) && !/[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Columns the text takes up in a monospaced font: CJK characters, full-width punctuation
+ * and emoji take two, zero-width spaces none
+ */
+export function displayWidth(text: string): number {
+	let width = 0;
+	for (const char of text) {
+		if (char === '\u200B') continue;
+		width += isCjk(char) || isFullwidthPunctuation(char) || /\p{Extended_Pictographic}/u.test(char) ? 2 : 1;
+	}
+	return width;
+}
+
+/**
+ * Get the full character (code point) starting at index
+ */
+export function charAt(text: string, index: number): string | undefined {
+	const code = text.codePointAt(index);
+	return code === undefined ? undefined : String.fromCodePoint(code);
+}
+
+/**
+ * Get the full character (code point) ending right before index
+ */
+export function charBefore(text: string, index: number): string | undefined {
+	if (index <= 0) return undefined;
+	const low = text.charCodeAt(index - 1);
+	if (low >= 0xDC00 && low <= 0xDFFF && index >= 2) {
+		const high = text.charCodeAt(index - 2);
+		if (high >= 0xD800 && high <= 0xDBFF) return text.slice(index - 2, index);
+	}
+	return text[index - 1];
+}
@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+/**
+ * Command line tool: run the same rules as the plugin on Markdown files
+ *
+ *   smart-spacing check [options] [files/globs...]   report problems, exit 1 if fix would change anything
+ *   smart-spacing fix [options] [files/globs...]     fix the files in place
+ *
+ * Without files (or with "-") the text is read from stdin; fix then writes the result to stdout.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { extname, join, relative, resolve, sep } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { parseSpacingSettings } from './config';
+import { matchesGlob } from './glob';
+import { IntegrityProblem, describeIntegrityProblem, findIntegrityProblem } from './integrity';
+import { lintText } from './lint';
+import { SmartSpacingSettings, processText } from './processor';
+
+type Command = 'check' | 'fix';
+
+interface CliOptions {
+	command: Command;
+	config: string | null;
+	stdin: boolean;
+	// Also list the emphasis problems fix leaves alone
+	warnings: boolean;
+	paths: string[];
+}
+
+/**
+ * What check found in a file: fixable problems, and warnings that only a person can resolve
+ */
+interface ProblemCounts {
+	problems: number;
+	warnings: number;
+}
+
+// Exit codes: problems found by check, and invalid usage, config or files
+const EXIT_PROBLEMS = 1;
+const EXIT_ERROR = 2;
+
+const CONFIG_FILES = ['.smart-spacing.json', '.smart-spacing.yaml', '.smart-spacing.yml'];
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const STDIN_NAME = '<stdin>';
+
+const USAGE = `Usage: smart-spacing <check|fix> [options] [files/globs...]
+
+Commands:
+  check               Report spacing problems; exits with 1 if fix would change anything
+  fix                 Fix the files in place (stdin input is written to stdout)
+
+Options:
+  -c, --config <file> JSON or YAML settings (default: ${CONFIG_FILES.join(', ')} in the current folder)
+  --stdin             Read the text from stdin, also used when no files are given
+  --warnings          With check, also list unmatched or crossing emphasis markers; fix
+                      leaves them alone, so they never change the exit code
+  -h, --help          Show this help
+
+Directories are searched for Markdown files. Notes with "smart-spacing: false"
+in their frontmatter are skipped, like in the plugin.
+`;
+
+class UsageError extends Error {}
+
+function main(args: string[]): number {
+	let options: CliOptions;
+	let settings: SmartSpacingSettings;
+	let files: string[];
+	try {
+		const parsed = parseArgs(args);
+		if (!parsed) {
+			process.stdout.write(USAGE);
+			return 0;
+		}
+		options = parsed;
+		settings = loadSettings(options.config);
+		files = expandPaths(options.paths);
+	} catch (error) {
+		process.stderr.write(`smart-spacing: ${errorMessage(error)}\n`);
+		if (error instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+		return EXIT_ERROR;
+	}
+
+	if (options.stdin) {
+		const text = readFileSync(0, 'utf8');
+		if (options.command === 'fix') {
+			const result = processText(text, settings);
+			const problem = findIntegrityProblem(text, result);
+			if (problem) {
+				// Pass the text through unchanged, so a pipeline never loses it
+				process.stdout.write(text);
+				process.stderr.write(`smart-spacing: ${STDIN_NAME} not fixed: ${integrityMessage(problem)}\n`);
+				return EXIT_ERROR;
+			}
+			process.stdout.write(result);
+			return 0;
+		}
+		return reportProblems(STDIN_NAME, text, settings, options.warnings).problems > 0 ? EXIT_PROBLEMS : 0;
+	}
+
+	let problems = 0;
+	let warnings = 0;
+	let problemFiles = 0;
+	let fixed = 0;
+	let failed = 0;
+	for (const file of files) {
+		const name = relative(process.cwd(), file).split(sep).join('/');
+		let text: string;
+		try {
+			text = readFileSync(file, 'utf8');
+		} catch (error) {
+			process.stderr.write(`smart-spacing: cannot read ${name}: ${errorMessage(error)}\n`);
+			return EXIT_ERROR;
+		}
+		if (isFormattingDisabled(text)) continue;
+
+		if (options.command === 'fix') {
+			const result = processText(text, settings);
+			if (result === text) continue;
+			const problem = findIntegrityProblem(text, result);
+			if (problem) {
+				process.stderr.write(`smart-spacing: ${name} not fixed: ${integrityMessage(problem)}\n`);
+				failed++;
+				continue;
+			}
+			writeFileSync(file, result, 'utf8');
+			process.stdout.write(`Fixed ${name}\n`);
+			fixed++;
+		} else {
+			const counts = reportProblems(name, text, settings, options.warnings);
+			problems += counts.problems;
+			warnings += counts.warnings;
+			if (counts.problems > 0) problemFiles++;
+		}
+	}
+
+	if (options.command === 'fix') {
+		process.stderr.write(`${fixed} of ${files.length} ${plural(files.length, 'file')} fixed\n`);
+		return failed > 0 ? EXIT_ERROR : 0;
+	}
+	const summary = problems > 0
+		? `${problems} ${plural(problems, 'problem')} in ${problemFiles} ${plural(problemFiles, 'file')}`
+		: `No problems in ${files.length} ${plural(files.length, 'file')}`;
+	process.stderr.write(warnings > 0 ? `${summary}, ${warnings} ${plural(warnings, 'warning')}\n` : `${summary}\n`);
+	return problems > 0 ? EXIT_PROBLEMS : 0;
+}
+
+/**
+ * Returns null when help was requested
+ */
+function parseArgs(args: string[]): CliOptions | null {
+	if (args.length === 0 || args.includes('-h') || args.includes('--help')) return null;
+
+	const [command, ...rest] = args;
+	if (command !== 'check' && command !== 'fix') throw new UsageError(`unknown command: ${command}`);
+
+	const options: CliOptions = { command, config: null, stdin: false, warnings: false, paths: [] };
+	for (let i = 0; i < rest.length; i++) {
+		const arg = rest[i];
+		if (arg === '-c' || arg === '--config') {
+			const value = rest[++i];
+			if (!value) throw new UsageError(`${arg} needs a file`);
+			options.config = value;
+		} else if (arg === '--stdin' || arg === '-') {
+			options.stdin = true;
+		} else if (arg === '--warnings') {
+			options.warnings = true;
+		} else if (arg.startsWith('-')) {
+			throw new UsageError(`unknown option: ${arg}`);
+		} else {
+			options.paths.push(arg);
+		}
+	}
+
+	if (options.stdin && options.paths.length > 0) throw new UsageError('use either stdin or files, not both');
+	if (options.paths.length === 0) options.stdin = true;
+	return options;
+}
+
+function loadSettings(configPath: string | null): SmartSpacingSettings {
+	const path = configPath ?? CONFIG_FILES.find(file => existsSync(file)) ?? null;
+	if (!path) return parseSpacingSettings(undefined);
+
+	let content: string;
+	try {
+		content = readFileSync(path, 'utf8');
+	} catch (error) {
+		throw new Error(`cannot read config ${path}: ${errorMessage(error)}`);
+	}
+	try {
+		const values: unknown = extname(path) === '.json' ? JSON.parse(content) : parseYaml(content);
+		return parseSpacingSettings(values);
+	} catch (error) {
+		throw new Error(`invalid config ${path}: ${errorMessage(error)}`);
+	}
+}
+
+/**
+ * Turn the arguments into a sorted list of files: files as given, Markdown files
+ * inside directories, and Markdown files under the current folder matching a glob
+ */
+function expandPaths(paths: string[]): string[] {
+	const files = new Set<string>();
+	let cwdFiles: string[] | null = null;
+
+	for (const path of paths) {
+		if (existsSync(path)) {
+			const absolute = resolve(path);
+			if (statSync(absolute).isDirectory()) {
+				findMarkdownFiles(absolute).forEach(file => files.add(file));
+			} else {
+				files.add(absolute);
+			}
+			continue;
+		}
+
+		cwdFiles ??= findMarkdownFiles(process.cwd());
+		const pattern = path.replace(/^\.\//, '');
+		const matches = cwdFiles.filter(file => matchesGlob(relative(process.cwd(), file).split(sep).join('/'), pattern));
+		if (matches.length === 0) throw new Error(`no files match ${path}`);
+		matches.forEach(file => files.add(file));
+	}
+
+	return [...files].sort();
+}
+
+/**
+ * Markdown files below a directory; hidden folders (.git, .obsidian) and node_modules are skipped
+ */
+function findMarkdownFiles(directory: string): string[] {
+	const files: string[] = [];
+	for (const entry of readdirSync(directory, { withFileTypes: true })) {
+		if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+		const path = join(directory, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...findMarkdownFiles(path));
+		} else if (MARKDOWN_EXTENSIONS.includes(extname(entry.name).toLowerCase())) {
+			files.push(path);
+		}
+	}
+	return files;
+}
+
+/**
+ * Whether the note opted out with smart-spacing: false in its frontmatter
+ */
+function isFormattingDisabled(text: string): boolean {
+	const match = FRONTMATTER_REGEX.exec(text);
+	if (!match) return false;
+	try {
+		const frontmatter: unknown = parseYaml(match[1]);
+		return typeof frontmatter === 'object' && frontmatter !== null
+			&& (frontmatter as Record<string, unknown>)['smart-spacing'] === false;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Print one line per problem (file:line:column  rule  message) and count them. Diagnostics
+ * without a fix are warnings, printed only when asked for.
+ */
+function reportProblems(name: string, text: string, settings: SmartSpacingSettings, showWarnings: boolean): ProblemCounts {
+	const counts: ProblemCounts = { problems: 0, warnings: 0 };
+	for (const diagnostic of lintText(text, settings)) {
+		if (diagnostic.fix) {
+			counts.problems++;
+		} else if (showWarnings) {
+			counts.warnings++;
+		} else {
+			continue;
+		}
+		process.stdout.write(`${name}:${diagnostic.line + 1}:${diagnostic.column + 1}  ${diagnostic.rule}  ${diagnostic.message}\n`);
+	}
+	return counts;
+}
+
+function integrityMessage(problem: IntegrityProblem): string {
+	return `formatting would change more than spaces at ${describeIntegrityProblem(problem)}; please report this as a bug`;
+}
+
+function plural(count: number, word: string): string {
+	return count === 1 ? word : `${word}s`;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+process.exitCode = main(process.argv.slice(2));
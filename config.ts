@@ -0,0 +1,79 @@
+/**
+ * Read processor settings from a plain object, e.g. a config file or the plugin's data.json
+ */
+
+import { ALL_CJK_SCRIPTS, CjkScript } from './cjk';
+import { CharacterClass, CustomSpacingRule, DelimiterType, SpacingAction, isValidPattern } from './customrules';
+import { DEFAULT_SPACING_SETTINGS, SmartSpacingSettings } from './processor';
+
+const DELIMITER_TYPES: DelimiterType[] = ['bold', 'italic', 'strikethrough', 'highlight', 'code'];
+const CHARACTER_CLASSES: CharacterClass[] = ['cjk', 'latin', 'digit', 'emoji', 'fullwidth-punctuation', 'custom'];
+const SPACING_ACTIONS: SpacingAction[] = ['space', 'none', 'zero-width'];
+
+/**
+ * Merge the values over the default settings.
+ * Unknown keys are ignored, so plugin-only options don't get in the way; a known key
+ * with a wrong value throws, since silently falling back would format with other rules.
+ */
+export function parseSpacingSettings(values: unknown): SmartSpacingSettings {
+	if (values === null || values === undefined) return { ...DEFAULT_SPACING_SETTINGS };
+	if (!isRecord(values)) throw new Error('settings must be an object');
+
+	const settings: SmartSpacingSettings = { ...DEFAULT_SPACING_SETTINGS };
+	for (const key of Object.keys(DEFAULT_SPACING_SETTINGS) as (keyof SmartSpacingSettings)[]) {
+		const value = values[key];
+		if (value === undefined) continue;
+		if (key === 'cjkScripts') {
+			settings.cjkScripts = parseScripts(value);
+		} else if (key === 'customRules') {
+			settings.customRules = parseCustomRules(value);
+		} else if (typeof value === 'boolean') {
+			settings[key] = value;
+		} else {
+			throw new Error(`${key} must be true or false`);
+		}
+	}
+	return settings;
+}
+
+function parseScripts(value: unknown): CjkScript[] {
+	if (!Array.isArray(value)) throw new Error(`cjkScripts must be a list of ${ALL_CJK_SCRIPTS.join(', ')}`);
+	for (const script of value) {
+		if (!ALL_CJK_SCRIPTS.includes(script as CjkScript)) {
+			throw new Error(`unknown script in cjkScripts: ${String(script)}`);
+		}
+	}
+	return ALL_CJK_SCRIPTS.filter(script => value.includes(script));
+}
+
+function parseCustomRules(value: unknown): CustomSpacingRule[] {
+	if (!Array.isArray(value)) throw new Error('customRules must be a list');
+	return value.map((rule: unknown, index) => {
+		const where = `customRules[${index}]`;
+		if (!isRecord(rule)) throw new Error(`${where} must be an object`);
+		const { delimiter, charClass, action } = rule;
+		const pattern = rule.pattern ?? '';
+		if (!DELIMITER_TYPES.includes(delimiter as DelimiterType)) {
+			throw new Error(`${where}.delimiter must be one of ${DELIMITER_TYPES.join(', ')}`);
+		}
+		if (!CHARACTER_CLASSES.includes(charClass as CharacterClass)) {
+			throw new Error(`${where}.charClass must be one of ${CHARACTER_CLASSES.join(', ')}`);
+		}
+		if (!SPACING_ACTIONS.includes(action as SpacingAction)) {
+			throw new Error(`${where}.action must be one of ${SPACING_ACTIONS.join(', ')}`);
+		}
+		if (typeof pattern !== 'string' || (charClass === 'custom' && !isValidPattern(pattern))) {
+			throw new Error(`${where}.pattern is not a valid regular expression`);
+		}
+		return {
+			delimiter: delimiter as DelimiterType,
+			charClass: charClass as CharacterClass,
+			pattern,
+			action: action as SpacingAction,
+		};
+	});
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
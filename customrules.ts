@@ -0,0 +1,89 @@
+/**
+ * User-defined spacing rules: which characters next to a delimiter get a space
+ */
+
+import { CjkScript, isCjk, isFullwidthPunctuation } from './cjk';
+
+export type DelimiterType = 'bold' | 'italic' | 'strikethrough' | 'highlight' | 'code';
+
+export type CharacterClass = 'cjk' | 'latin' | 'digit' | 'emoji' | 'fullwidth-punctuation' | 'custom';
+
+export type SpacingAction = 'space' | 'none' | 'zero-width';
+
+/**
+ * "Next to <delimiter>, a character of <charClass> gets <action>".
+ * Rules are checked in order and the first match wins over the built-in toggles.
+ */
+export interface CustomSpacingRule {
+	delimiter: DelimiterType;
+	charClass: CharacterClass;
+	// Regular expression matching a single character, only used by the 'custom' class (e.g. [α-ω])
+	pattern: string;
+	action: SpacingAction;
+}
+
+export const SPACING_ACTION_TEXT: Record<SpacingAction, string> = {
+	'space': ' ',
+	'none': '',
+	'zero-width': '\u200B',
+};
+
+const CLASS_PATTERNS: Record<Exclude<CharacterClass, 'cjk' | 'fullwidth-punctuation' | 'custom'>, RegExp> = {
+	latin: /^\p{Script=Latin}$/u,
+	digit: /^[0-9]$/,
+	// The last code point of an emoji may be a variation selector or skin tone modifier
+	emoji: /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\u{FE0F})$/u,
+};
+
+// Compiled custom patterns; null for patterns that are not valid regular expressions
+const customPatternCache = new Map<string, RegExp | null>();
+
+/**
+ * Find the first rule for the delimiter that matches the neighbouring character
+ */
+export function findCustomRule(
+	rules: readonly CustomSpacingRule[],
+	delimiter: DelimiterType,
+	char: string,
+	scripts: readonly CjkScript[],
+): CustomSpacingRule | undefined {
+	return rules.find(rule => rule.delimiter === delimiter && matchesCharacterClass(rule, char, scripts));
+}
+
+export function hasCustomRules(rules: readonly CustomSpacingRule[], delimiter: DelimiterType): boolean {
+	return rules.some(rule => rule.delimiter === delimiter);
+}
+
+/**
+ * Whether a custom pattern can be used; invalid patterns never match
+ */
+export function isValidPattern(pattern: string): boolean {
+	return compilePattern(pattern) !== null;
+}
+
+function matchesCharacterClass(rule: CustomSpacingRule, char: string, scripts: readonly CjkScript[]): boolean {
+	switch (rule.charClass) {
+		case 'cjk':
+			return isCjk(char, scripts);
+		case 'fullwidth-punctuation':
+			return isFullwidthPunctuation(char);
+		case 'custom':
+			return compilePattern(rule.pattern)?.test(char) ?? false;
+		default:
+			return CLASS_PATTERNS[rule.charClass].test(char);
+	}
+}
+
+function compilePattern(pattern: string): RegExp | null {
+	if (!pattern) return null;
+	let regex = customPatternCache.get(pattern);
+	if (regex === undefined) {
+		try {
+			regex = new RegExp(`^(?:${pattern})$`, 'u');
+		} catch {
+			regex = null;
+		}
+		customPatternCache.set(pattern, regex);
+	}
+	return regex;
+}
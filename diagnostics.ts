@@ -0,0 +1,133 @@
+/**
+ * Lint mode in the editor: spacing problems are underlined, explained on hover and
+ * can be fixed one by one from the tooltip. The note itself is never changed otherwise.
+ */
+
+import { Extension, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, PluginValue, ViewPlugin, ViewUpdate, hoverTooltip } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+import { getRuleMessage, t } from './i18n';
+import { SpacingDiagnostic, lintText } from './lint';
+
+// Re-lint this long after the last change
+const LINT_DELAY = 500;
+
+interface LintState {
+	diagnostics: SpacingDiagnostic[];
+	decorations: DecorationSet;
+}
+
+const setDiagnostics = StateEffect.define<SpacingDiagnostic[]>();
+
+const issueMark = Decoration.mark({ class: 'smart-spacing-issue' });
+
+const lintField = StateField.define<LintState>({
+	create: () => ({ diagnostics: [], decorations: Decoration.none }),
+	update(value, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setDiagnostics)) return createLintState(effect.value);
+		}
+		if (!tr.docChanged) return value;
+
+		// Until the next lint run, drop what the change touched and map the rest
+		const diagnostics = value.diagnostics
+			.filter(diagnostic => !tr.changes.touchesRange(diagnostic.from, diagnostic.to))
+			.map(diagnostic => ({
+				...diagnostic,
+				from: tr.changes.mapPos(diagnostic.from),
+				to: tr.changes.mapPos(diagnostic.to),
+				fix: diagnostic.fix && {
+					...diagnostic.fix,
+					from: tr.changes.mapPos(diagnostic.fix.from),
+					to: tr.changes.mapPos(diagnostic.fix.to),
+				},
+			}));
+		return createLintState(diagnostics);
+	},
+	provide: field => EditorView.decorations.from(field, value => value.decorations),
+});
+
+/**
+ * Create the editor extension for lint mode
+ */
+export function createLintExtension(plugin: SmartSpacingPlugin): Extension {
+	return [
+		lintField,
+		ViewPlugin.define(view => new LintPlugin(view, plugin)),
+		hoverTooltip((view, pos) => {
+			const found = view.state.field(lintField).diagnostics
+				.filter(diagnostic => diagnostic.from <= pos && pos <= diagnostic.to);
+			if (found.length === 0) return null;
+			return {
+				pos: Math.min(...found.map(diagnostic => diagnostic.from)),
+				end: Math.max(...found.map(diagnostic => diagnostic.to)),
+				above: true,
+				create: () => ({ dom: createTooltip(view, found) }),
+			};
+		}),
+	];
+}
+
+function createLintState(diagnostics: SpacingDiagnostic[]): LintState {
+	const ranges = diagnostics
+		.filter(diagnostic => diagnostic.from < diagnostic.to)
+		.map(diagnostic => issueMark.range(diagnostic.from, diagnostic.to));
+	return { diagnostics, decorations: Decoration.set(ranges, true) };
+}
+
+function createTooltip(view: EditorView, diagnostics: SpacingDiagnostic[]): HTMLElement {
+	const dom = document.createElement('div');
+	dom.addClass('smart-spacing-tooltip');
+	for (const diagnostic of diagnostics) {
+		const rowEl = dom.createDiv({ cls: 'smart-spacing-tooltip-row' });
+		rowEl.createSpan({ text: getRuleMessage(diagnostic.rule) });
+		rowEl.createSpan({ text: diagnostic.rule, cls: 'smart-spacing-rule' });
+		const fix = diagnostic.fix;
+		if (!fix) continue;
+		const fixButton = rowEl.createEl('button', { text: t('issues.fix') });
+		fixButton.addEventListener('click', () => {
+			view.dispatch({ changes: { from: fix.from, to: fix.to, insert: fix.insert } });
+		});
+	}
+	return dom;
+}
+
+/**
+ * Lints the note when it is opened and again after every pause in editing
+ */
+class LintPlugin implements PluginValue {
+	private timer: number | null = null;
+
+	constructor(private readonly view: EditorView, private readonly plugin: SmartSpacingPlugin) {
+		// Effects can't be dispatched while the view is being constructed
+		this.schedule(0);
+	}
+
+	update(update: ViewUpdate): void {
+		if (update.docChanged) this.schedule(LINT_DELAY);
+	}
+
+	destroy(): void {
+		this.clearTimer();
+	}
+
+	private schedule(delay: number): void {
+		this.clearTimer();
+		this.timer = window.setTimeout(() => this.lint(), delay);
+	}
+
+	private lint(): void {
+		this.timer = null;
+		const file = this.view.state.field(editorInfoField, false)?.file ?? null;
+		const diagnostics = lintText(this.view.state.doc.toString(), this.plugin.getNoteSettings(file));
+		this.view.dispatch({ effects: setDiagnostics.of(diagnostics) });
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -0,0 +1,96 @@
+/**
+ * Minimal edits between a note and its formatted version
+ */
+
+/**
+ * Replace old[from, to) with insert. Offsets always refer to the original text.
+ */
+export interface TextEdit {
+	from: number;
+	to: number;
+	insert: string;
+}
+
+/**
+ * Compute the edits that turn oldText into newText.
+ * The processor only inserts or removes whitespace, so both texts are walked in step:
+ * differing whitespace becomes an insertion or deletion and everything else is kept.
+ * If the non-whitespace content differs after all, the differing middle part is
+ * replaced as a single edit.
+ */
+export function computeEdits(oldText: string, newText: string): TextEdit[] {
+	const edits: TextEdit[] = [];
+	let i = 0;
+	let j = 0;
+
+	const addEdit = (from: number, to: number, insert: string) => {
+		const last = edits[edits.length - 1];
+		if (last && last.to === from) {
+			last.to = to;
+			last.insert += insert;
+		} else {
+			edits.push({ from, to, insert });
+		}
+	};
+
+	while (i < oldText.length || j < newText.length) {
+		const oldChar = oldText[i];
+		const newChar = newText[j];
+		if (oldChar === newChar) {
+			i++;
+			j++;
+		} else if (newChar !== undefined && isSpacing(newChar)) {
+			addEdit(i, i, newChar);
+			j++;
+		} else if (oldChar !== undefined && isSpacing(oldChar)) {
+			addEdit(i, i + 1, '');
+			i++;
+		} else {
+			return [replaceMiddle(oldText, newText)];
+		}
+	}
+
+	return edits;
+}
+
+/**
+ * Map an offset in the original text to the text after the edits.
+ * An offset inside a replaced range moves to its end; text inserted exactly at the offset ends up after it.
+ */
+export function mapOffset(edits: TextEdit[], offset: number): number {
+	let delta = 0;
+	for (const edit of edits) {
+		if (edit.from >= offset) break;
+		if (edit.to > offset) return edit.from + delta + edit.insert.length;
+		delta += edit.insert.length - (edit.to - edit.from);
+	}
+	return offset + delta;
+}
+
+/**
+ * Convert an offset into a line/ch position
+ */
+export function offsetToPosition(text: string, offset: number): { line: number; ch: number } {
+	let line = 0;
+	let lineStart = 0;
+	for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) {
+		line++;
+		lineStart = i + 1;
+	}
+	return { line, ch: offset - lineStart };
+}
+
+function isSpacing(char: string): boolean {
+	return /\s/.test(char) || char === '\u200B';
+}
+
+function replaceMiddle(oldText: string, newText: string): TextEdit {
+	let start = 0;
+	while (start < oldText.length && start < newText.length && oldText[start] === newText[start]) start++;
+	let end = 0;
+	while (
+		end < oldText.length - start && end < newText.length - start
+		&& oldText[oldText.length - 1 - end] === newText[newText.length - 1 - end]
+	) end++;
+	return { from: start, to: oldText.length - end, insert: newText.slice(start, newText.length - end) };
+}
@@ -0,0 +1,94 @@
+/**
+ * Track the lines of each editor that changed since the note was last formatted on save,
+ * so the next save only has to process those lines
+ */
+
+import { Extension } from '@codemirror/state';
+import { EditorView, PluginValue, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { Editor, editorInfoField } from 'obsidian';
+import type { LineRange } from './processor';
+
+// Merge the tracked ranges once there are this many, so a long session stays cheap
+const MAX_RANGES = 64;
+
+const trackers = new WeakMap<Editor, DirtyLinesTracker>();
+
+export function createDirtyLinesExtension(): Extension {
+	return ViewPlugin.define(view => new DirtyLinesTracker(view));
+}
+
+/**
+ * Lines changed since markClean was last called with the same settings key,
+ * or null when the whole note has to be processed
+ */
+export function getDirtyLines(editor: Editor, settingsKey: string): LineRange[] | null {
+	return trackers.get(editor)?.getDirtyLines(settingsKey) ?? null;
+}
+
+/**
+ * Record that the note is fully formatted with the given settings
+ */
+export function markClean(editor: Editor, settingsKey: string): void {
+	trackers.get(editor)?.markClean(settingsKey);
+}
+
+class DirtyLinesTracker implements PluginValue {
+	// Changed document ranges; null until the note has been formatted once
+	private ranges: { from: number; to: number }[] | null = null;
+	// Settings the note was formatted with; other settings may change any line
+	private settingsKey = '';
+
+	constructor(private readonly view: EditorView) {
+		this.register();
+	}
+
+	update(update: ViewUpdate): void {
+		this.register();
+		if (!update.docChanged || !this.ranges) return;
+
+		const ranges = this.ranges.map(range => ({
+			from: update.changes.mapPos(range.from, -1),
+			to: update.changes.mapPos(range.to, 1),
+		}));
+		update.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+			ranges.push({ from: fromB, to: toB });
+		});
+		this.ranges = ranges.length > MAX_RANGES ? mergeRanges(ranges) : ranges;
+	}
+
+	getDirtyLines(settingsKey: string): LineRange[] | null {
+		if (!this.ranges || settingsKey !== this.settingsKey) return null;
+		const doc = this.view.state.doc;
+		return this.ranges.map(range => ({
+			from: doc.lineAt(range.from).number - 1,
+			to: doc.lineAt(range.to).number - 1,
+		}));
+	}
+
+	markClean(settingsKey: string): void {
+		this.ranges = [];
+		this.settingsKey = settingsKey;
+	}
+
+	/**
+	 * The editor info may not be available yet when the view is created
+	 */
+	private register(): void {
+		const editor = this.view.state.field(editorInfoField, false)?.editor;
+		if (editor && trackers.get(editor) !== this) trackers.set(editor, this);
+	}
+}
+
+function mergeRanges(ranges: { from: number; to: number }[]): { from: number; to: number }[] {
+	const sorted = [...ranges].sort((a, b) => a.from - b.from);
+	const merged = [sorted[0]];
+	for (const range of sorted.slice(1)) {
+		const last = merged[merged.length - 1];
+		if (range.from <= last.to) {
+			last.to = Math.max(last.to, range.to);
+		} else {
+			merged.push(range);
+		}
+	}
+	return merged;
+}
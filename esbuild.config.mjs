@@ -10,7 +10,28 @@ if you want to view the source, please visit the github repository of this plugi
 */
 `;
 
-const prod = (process.argv[2] === "production");
+const mode = process.argv[2];
+const prod = (mode === "production");
+
+// Node library and command line tool: the processor without the plugin, for Git hooks and CI
+const nodeOptions = {
+	banner: {
+		js: banner,
+	},
+	entryPoints: ["lib.ts", "cli.ts"],
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node18",
+	logLevel: "info",
+	treeShaking: true,
+	outdir: "dist",
+};
+
+if (mode === "node") {
+	await esbuild.build(nodeOptions);
+	process.exit(0);
+}
 
 const context = await esbuild.context({
 	banner: {
@@ -57,6 +78,7 @@ if (prod) {
 		mkdirSync("build");
 	}
 	await context.rebuild();
+	await esbuild.build(nodeOptions);
 	// Copy manifest.json and styles.css (if exists) to build folder
 	copyFileSync("manifest.json", "build/manifest.json");
 	try {
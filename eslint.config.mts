@@ -32,5 +32,13 @@ export default tseslint.config(
       "no-restricted-imports": ["error", "fs", "node:fs", "fs/promises", "node:fs/promises"],
       "obsidianmd/ui/sentence-case": "error", // Upgrade warning to error to match bot
     },
+  },
+  {
+    // The command line tool and the tests run in Node, not in Obsidian
+    files: ["cli.ts", "tests/**/*.ts"],
+    rules: {
+      "no-restricted-imports": "off",
+      "import/no-nodejs-modules": "off",
+    },
   }
 );
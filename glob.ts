@@ -0,0 +1,46 @@
+/**
+ * Minimal glob matching for vault paths
+ *
+ * Supports `**` (any number of folders), `*` (anything but '/'), `?` (one character but '/').
+ * A pattern ending in '/' matches everything inside that folder.
+ */
+
+export function matchesGlob(path: string, pattern: string): boolean {
+	return globToRegExp(pattern).test(path);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some(pattern => matchesGlob(path, pattern));
+}
+
+/**
+ * Split a multi-line settings value into trimmed, non-empty glob patterns
+ */
+export function parseGlobList(value: string): string[] {
+	return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+function globToRegExp(pattern: string): RegExp {
+	const normalized = pattern.trim().replace(/^\/+/, '').replace(/\/$/, '/**');
+	let source = '';
+	for (let i = 0; i < normalized.length; i++) {
+		const char = normalized[i];
+		if (char === '*' && normalized[i + 1] === '*') {
+			// "**/" may also match no folder at all
+			if (normalized[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
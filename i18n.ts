@@ -0,0 +1,785 @@
+/**
+ * Translations of the plugin's interface: settings, notices, modals and diagnostics.
+ * Command names stay in English, so Linter custom commands and hotkeys keep working.
+ *
+ * English is the reference; the other languages must define every key it has.
+ */
+
+import type { IntegrityProblem } from './integrity';
+import type { LintRule } from './lint';
+
+export type Language = 'en' | 'zh' | 'ja';
+
+/**
+ * The language setting: a fixed language, or whatever Obsidian is set to
+ */
+export type LanguageSetting = Language | 'auto';
+
+const en = {
+	// Settings: general
+	'settings.intro': '💡 This plugin focuses on spacing around bold and italic text and works best together with the Linter plugin.',
+	'settings.language': 'Language',
+	'settings.language.desc': 'Language of the settings, notices and issue descriptions. Command names always stay in English.',
+	'settings.language.auto': 'Follow Obsidian',
+
+	// Settings: rules (the names are also used by the profile editor)
+	'settings.core': 'Core features',
+	'setting.removeInternalBoldSpaces': 'Remove spaces inside bold/italic markers',
+	'setting.removeInternalBoldSpaces.desc': 'Fixes ** text ** → **text** and * text * → *text*',
+	'setting.spaceBetweenChineseAndBold': 'Add space between Chinese and bold',
+	'setting.spaceBetweenChineseAndBold.desc': '中文**加粗** → 中文 **加粗**',
+	'setting.spaceBetweenEnglishAndBold': 'Add space between English and bold',
+	'setting.spaceBetweenEnglishAndBold.desc': 'Word**bold** → Word **bold** (rarely needed)',
+	'setting.spaceBetweenChineseAndItalic': 'Add space between Chinese and italic',
+	'setting.spaceBetweenChineseAndItalic.desc': '中文*斜体* → 中文 *斜体*',
+	'setting.spaceBetweenChineseAndStrikethrough': 'Add space between Chinese and strikethrough',
+	'setting.spaceBetweenChineseAndStrikethrough.desc': '中文~~ 删除 ~~ → 中文 ~~删除~~ (inner spaces follow the first switch)',
+	'setting.spaceBetweenChineseAndHighlight': 'Add space between Chinese and highlight',
+	'setting.spaceBetweenChineseAndHighlight.desc': '中文==高亮== → 中文 ==高亮== (inner spaces follow the first switch)',
+	'setting.spaceBetweenChineseAndInlineCode': 'Add space between Chinese and inline code',
+	'setting.spaceBetweenChineseAndInlineCode.desc': '中文`code`中文 → 中文 `code` 中文 (the code itself is never changed)',
+	'setting.useZeroWidthSpace': 'Use zero-width spaces',
+	'setting.useZeroWidthSpace.desc': 'Insert a zero-width space (\\u200B) instead of a regular space: no visible gap, but the markup still renders correctly',
+	'setting.showZeroWidthSpaces': 'Show zero-width spaces',
+	'setting.showZeroWidthSpaces.desc': 'Mark zero-width spaces with · in the editor, so they are easy to check and clean up (display only, the note is not changed)',
+	'setting.previewChanges': 'Preview changes',
+	'setting.previewChanges.desc': 'Show a diff before manual commands change the note, to accept all, reject all or pick single changes (automatic formatting and silent commands are not affected)',
+	'setting.lintMode': 'Lint mode',
+	'setting.lintMode.desc': 'Underline spacing problems in the editor; hover for an explanation and a single fix. The note is not changed automatically',
+
+	'settings.scripts': 'Scripts',
+	'settings.scripts.desc': 'Choose which scripts count as CJK text ("Chinese" in the rules above). Spaces are never added next to full-width punctuation (，。！).',
+	'script.han': 'Han characters',
+	'script.han.desc': 'Including the extension blocks (such as 㐀, 𠀀) and Bopomofo',
+	'script.kana': 'Japanese kana',
+	'script.kana.desc': 'Hiragana and katakana, such as ひらがな, カタカナ',
+	'script.hangul': 'Hangul',
+	'script.hangul.desc': 'Korean letters, such as 한국어',
+
+	'settings.mixed': 'Mixed CJK and Latin text',
+	'settings.mixed.desc': 'Optional pangu-style rules. Turned on, they can replace the Linter rules for CJK and Latin spacing, so the two don\'t conflict.',
+	'setting.spaceBetweenChineseAndEnglish': 'Add space between Chinese and English',
+	'setting.spaceBetweenChineseAndEnglish.desc': '使用Obsidian → 使用 Obsidian',
+	'setting.spaceBetweenChineseAndNumber': 'Add space between Chinese and numbers',
+	'setting.spaceBetweenChineseAndNumber.desc': '共100个 → 共 100 个',
+	'setting.normalizePunctuationSpacing': 'Normalize spacing around punctuation',
+	'setting.normalizePunctuationSpacing.desc': 'Remove spaces next to full-width punctuation: 中文 ， 英文 → 中文，英文',
+
+	'settings.protection': 'Protected content',
+	'setting.skipCodeBlocks': 'Skip code blocks',
+	'setting.skipCodeBlocks.desc': 'Leave the content of ``` code blocks unchanged',
+	'setting.skipInlineCode': 'Skip inline code',
+	'setting.skipInlineCode.desc': 'Leave the content of `code` unchanged',
+	'setting.skipFrontmatter': 'Skip frontmatter',
+	'setting.skipFrontmatter.desc': 'Leave the YAML properties between the --- lines at the top of the note unchanged',
+	'setting.skipComments': 'Skip comments',
+	'setting.skipComments.desc': 'Leave the content of %% comments %% unchanged',
+	'setting.skipWikilinks': 'Skip wikilinks and embeds',
+	'setting.skipWikilinks.desc': 'Leave [[link|alias]] and ![[embed]] unchanged',
+	'setting.skipTags': 'Skip tags',
+	'setting.skipTags.desc': 'Leave #tag and #nested/tag unchanged',
+	'setting.skipHtml': 'Skip HTML',
+	'setting.skipHtml.desc': 'Leave HTML tags such as <span> and <!-- --> comments unchanged',
+	'setting.skipLinkUrls': 'Skip link URLs',
+	'setting.skipLinkUrls.desc': 'Leave the URL in [text](url) and link reference definitions unchanged; the link text is still processed',
+	'setting.skipFootnotes': 'Skip footnotes',
+	'setting.skipFootnotes.desc': 'Leave [^1] footnote references and footnote definition markers unchanged',
+	'setting.skipBlockIds': 'Skip block IDs',
+	'setting.skipBlockIds.desc': 'Leave a ^block-id at the end of a line unchanged',
+
+	// Settings: plugin behaviour
+	'settings.autoFormat': 'Automatic formatting',
+	'settings.autoFormat.desc': 'Add smart-spacing: false to the frontmatter of a note to skip automatic formatting for it (manual commands still work). Click the wand icon in the left ribbon or use the "Toggle automatic formatting for this session" command to pause automatic formatting until Obsidian restarts.',
+	'setting.formatOnSave': 'Format on save',
+	'setting.formatOnSave.desc': 'Fix the current note when it is saved with the save command (Ctrl/Cmd + S)',
+	'setting.formatOnType': 'Format as you type',
+	'setting.formatOnType.desc': 'Fix a line when a closing marker (such as ** or *) is typed or the cursor leaves the line',
+	'setting.formatOnTypeDelay': 'Delay for formatting as you type',
+	'setting.formatOnTypeDelay.desc': 'How many milliseconds after typing stops the line is fixed',
+
+	'settings.statusBar': 'Status bar',
+	'setting.showStatusBar': 'Show issue count',
+	'setting.showStatusBar.desc': 'Show the number of spacing issues in the current note in the status bar, updated as you edit',
+	'setting.statusBarAction': 'When the status bar is clicked',
+	'statusBarAction.format': 'Fix the current note',
+	'statusBarAction.issues': 'Open the issue list',
+
+	'settings.batch': 'Batch formatting',
+	'settings.batch.desc': 'Use the "Fix spacing in all notes" or "Fix spacing in folder" command to format many notes at once. The notes that would change are listed for confirmation first; notes with smart-spacing: false in their frontmatter are skipped.',
+	'setting.batchInclude': 'Included paths',
+	'setting.batchInclude.desc': 'One glob pattern per line, such as notes/**/*.md; leave empty to include every note',
+	'setting.batchExclude': 'Excluded paths',
+	'setting.batchExclude.desc': 'One glob pattern per line, such as templates/ or **/*.excalidraw.md',
+
+	'settings.snapshots': 'Snapshots',
+	'settings.snapshots.desc': 'Formatting only adds or removes spaces: every change is checked before it is written, and dropped if any other character would change. The original text is also saved before each change and can be restored with the "Restore previous version" command.',
+	'setting.snapshotLimit': 'Snapshots kept per note',
+	'setting.snapshotLimit.desc': 'Snapshots are stored in the plugin folder; set to 0 to keep none',
+
+	// Settings: Linter guide
+	'linter.heading': '📋 Using with Linter',
+	'linter.status': 'Detection status',
+	'linter.recheck': 'Check again',
+	'linter.status.missing': 'The Linter plugin was not found. The commands and automatic formatting of this plugin also work on their own.',
+	'linter.status.disabled': 'Linter is installed but not enabled.',
+	'linter.status.not-configured': '⚠️ Linter is enabled, but none of the commands of this plugin has been added yet. Follow the steps below.',
+	'linter.status.configured': '✅ Linter is enabled and runs this plugin when it formats.',
+	'linter.guide.intro': 'Add a custom command in the Linter settings:',
+	'linter.guide.open': 'Open the Linter settings → Custom commands',
+	'linter.guide.add': 'Add the command: ',
+	'linter.guide.result': 'Linter then runs this plugin whenever it formats',
+	'linter.guide.roles': 'Who does what:',
+	'linter.guide.plugin': 'This plugin',
+	'linter.guide.plugin.role': ': spacing around bold and italic (a state machine, so markers are never mismatched)',
+	'linter.guide.linter': 'Linter',
+	'linter.guide.linter.role': ': all other formatting (CJK/Latin and CJK/number spacing can be left to Linter too, or use the mixed text rules above)',
+
+	// Settings: custom rules
+	'customRules.heading': 'Custom rules',
+	'customRules.desc': 'Define what happens when a marker is directly next to a kind of character outside it, such as "bold + Latin letters → add space". Rules are matched from top to bottom; the first matching rule takes precedence over the switches above, which apply when no rule matches.',
+	'customRules.invalidPattern': 'Invalid regular expression; this rule has no effect',
+	'customRules.moveUp': 'Move up',
+	'customRules.add': 'Add custom rule',
+	'delimiter.bold': 'Bold',
+	'delimiter.italic': 'Italic',
+	'delimiter.strikethrough': 'Strikethrough',
+	'delimiter.highlight': 'Highlight',
+	'delimiter.code': 'Inline code',
+	'charClass.cjk': 'CJK text',
+	'charClass.latin': 'Latin letters',
+	'charClass.digit': 'Digits',
+	'charClass.emoji': 'Emoji',
+	'charClass.fullwidth-punctuation': 'Full-width punctuation',
+	'charClass.custom': 'Custom regex',
+	'action.space': 'Add space',
+	'action.zero-width': 'Add zero-width space',
+	'action.none': 'No space',
+
+	// Settings: profiles
+	'profiles.heading': 'Profiles',
+	'profiles.desc': 'Use different rules for notes in different folders or with different tags. A profile only overrides the rules it sets; all other rules follow the global settings above. A single note can pick a profile with smart-spacing: profile name in its frontmatter, or override single rules directly.',
+	'profiles.activeNote': 'The current note ({note}) uses: {profile}',
+	'profiles.global': 'global settings',
+	'profiles.noteOverrides': ', with frontmatter overrides',
+	'profiles.overrides': 'Overrides {count} rules',
+	'profiles.overrides.one': 'Overrides 1 rule',
+	'profiles.edit': 'Edit rules',
+	'profiles.add': 'Add profile',
+	'profiles.defaultName': 'Profile {number}',
+	'profiles.rules': 'Profile rules',
+	'profiles.rules.desc': 'Each rule matches a path glob (such as notes/ja/) or a tag (such as #english); the first matching rule from the top applies',
+	'profiles.addRule': 'Add rule',
+	'profileModal.title': 'Profile: {name}',
+	'profileModal.inherit': 'Follow global setting',
+	'profileModal.on': 'On',
+	'profileModal.off': 'Off',
+	'delete': 'Delete',
+	'cancel': 'Cancel',
+
+	// Notices and labels of the editor commands
+	'notice.noChanges': 'Smart spacing: no changes needed{profile}.',
+	'notice.fixed': 'Smart spacing fixed{profile}',
+	'notice.profile': 'profile: {name}',
+	'notice.noteOverrides': 'note overrides',
+	'notice.emphasisProblems': 'Smart spacing: {count} unmatched or crossing emphasis markers were left untouched (line {lines}).',
+	'notice.changedDuringPreview': 'Smart spacing: the note changed during the preview, nothing was applied.',
+	'notice.integrity': 'Smart spacing: nothing was changed, formatting would have changed more than spaces ({problem}). Please report this as a bug.',
+	'notice.integrityProblem': 'line {line}, column {column}: {before} became {after}',
+	'notice.noZeroWidthSpaces': 'Smart spacing: no zero-width spaces to convert.',
+	'notice.zeroWidthSpacesConverted': 'Smart spacing: zero-width spaces converted.',
+	'notice.noSnapshots': 'Smart spacing: there are no earlier versions of this note.',
+	'notice.restored': 'Smart spacing: restored the version from {time}.',
+	'notice.paused': 'Smart spacing: automatic formatting paused for this session.',
+	'notice.resumed': 'Smart spacing: automatic formatting resumed.',
+	'ribbon.pause': 'Pause automatic spacing formatting',
+	'ribbon.resume': 'Resume automatic spacing formatting',
+	'menu.folder': 'Fix spacing in folder',
+	'menu.selection': 'Fix spacing in selection',
+	'menu.paragraph': 'Fix spacing in current paragraph',
+	'menu.section': 'Fix spacing in current section',
+
+	// Batch formatting
+	'batch.noNotes': 'Smart spacing: no notes to format.',
+	'batch.checking': 'Smart spacing: checking notes',
+	'batch.formatting': 'Smart spacing: formatting notes',
+	'batch.cancelled': 'Smart spacing: batch format cancelled.',
+	'batch.cancelledAfter': 'Smart spacing: cancelled after {done} of {total} notes.',
+	'batch.fixed': 'Smart spacing fixed {count} notes.',
+	'batch.integrity': 'Smart spacing: {count} notes were not changed, formatting would have changed more than spaces. Please report this as a bug.',
+	'batch.report.title': 'Smart spacing: dry run',
+	'batch.report.summary': '{count} notes in {scope} would change ({edits} edits).',
+	'batch.report.vault': 'the vault',
+	'batch.report.edits': '{count} edits',
+	'batch.report.edits.one': '1 edit',
+	'batch.report.apply': 'Apply changes',
+	'batch.folderPlaceholder': 'Choose a folder to format',
+
+	// Diff preview
+	'preview.title': 'Smart spacing: preview changes',
+	'preview.summary': '{count} changed lines. Uncheck a change to keep the original text.',
+	'preview.summary.one': '1 changed line. Uncheck a change to keep the original text.',
+	'preview.reject': 'Reject all',
+	'preview.applySelected': 'Apply selected',
+	'preview.accept': 'Accept all',
+
+	// Issues panel, lint tooltips and status bar
+	'issues.title': 'Spacing issues',
+	'issues.empty': 'Open a note to see its spacing issues.',
+	'issues.count': '{note}: {count} issues',
+	'issues.count.one': '{note}: 1 issue',
+	'issues.location': 'Ln {line}, Col {column}',
+	'issues.fixAll': 'Fix all',
+	'issues.fix': 'Fix',
+	'statusBar.none': 'No spacing issues',
+	'statusBar.count': '{count} spacing issues',
+	'statusBar.count.one': '1 spacing issue',
+	'statusBar.paused': ' (auto-format paused)',
+	'statusBar.clickToFix': 'Click to fix spacing',
+	'statusBar.clickToShow': 'Click to show spacing issues',
+
+	// Snapshots
+	'snapshots.placeholder': 'Choose a version to restore',
+	'snapshots.lines': '{time} — {count} lines',
+	'snapshots.lines.one': '{time} — 1 line',
+
+	// Zero-width space marker in the editor
+	'invisibles.zeroWidthSpace': 'Zero-width space',
+
+	// Diagnostics, by rule
+	'diagnostic.internal-bold-space': 'Space inside emphasis markers',
+	'diagnostic.cjk-bold-boundary': 'Missing space between text and bold',
+	'diagnostic.cjk-italic-boundary': 'Missing space between CJK text and italic',
+	'diagnostic.cjk-strikethrough-boundary': 'Missing space between CJK text and strikethrough',
+	'diagnostic.cjk-highlight-boundary': 'Missing space between CJK text and highlight',
+	'diagnostic.cjk-latin-spacing': 'Missing space between CJK and Latin text',
+	'diagnostic.punctuation-spacing': 'Space next to punctuation',
+	'diagnostic.cjk-inline-code-boundary': 'Missing space between CJK text and inline code',
+	'diagnostic.unmatched-emphasis': 'Emphasis marker without a partner in this paragraph; it is left untouched',
+	'diagnostic.crossing-emphasis': 'Emphasis markers cross each other; they are left untouched',
+};
+
+export type TranslationKey = keyof typeof en;
+
+const zh: Record<TranslationKey, string> = {
+	'settings.intro': '💡 此插件专注于处理加粗/斜体的空格问题，建议配合 linter 插件使用。',
+	'settings.language': '语言',
+	'settings.language.desc': '设置、提示和问题说明使用的语言。命令名称始终为英文。',
+	'settings.language.auto': '跟随 Obsidian',
+
+	'settings.core': '核心功能',
+	'setting.removeInternalBoldSpaces': '清理加粗/斜体内部空格',
+	'setting.removeInternalBoldSpaces.desc': '修复 ** 文本 ** → **文本**，* 文本 * → *文本*',
+	'setting.spaceBetweenChineseAndBold': '中文与加粗之间添加空格',
+	'setting.spaceBetweenChineseAndBold.desc': '中文**加粗** → 中文 **加粗**',
+	'setting.spaceBetweenEnglishAndBold': '英文与加粗之间添加空格',
+	'setting.spaceBetweenEnglishAndBold.desc': 'Word**bold** → Word **bold**（通常不需要）',
+	'setting.spaceBetweenChineseAndItalic': '中文与斜体之间添加空格',
+	'setting.spaceBetweenChineseAndItalic.desc': '中文*斜体* → 中文 *斜体*',
+	'setting.spaceBetweenChineseAndStrikethrough': '中文与删除线之间添加空格',
+	'setting.spaceBetweenChineseAndStrikethrough.desc': '中文~~ 删除 ~~ → 中文 ~~删除~~（内部空格清理跟随上方开关）',
+	'setting.spaceBetweenChineseAndHighlight': '中文与高亮之间添加空格',
+	'setting.spaceBetweenChineseAndHighlight.desc': '中文==高亮== → 中文 ==高亮==（内部空格清理跟随上方开关）',
+	'setting.spaceBetweenChineseAndInlineCode': '中文与行内代码之间添加空格',
+	'setting.spaceBetweenChineseAndInlineCode.desc': '中文`code`中文 → 中文 `code` 中文（不修改代码内容）',
+	'setting.useZeroWidthSpace': '使用零宽空格',
+	'setting.useZeroWidthSpace.desc': '使用零宽空格 (\\u200B) 代替普通空格，视觉上无间隙但仍能正确渲染',
+	'setting.showZeroWidthSpaces': '显示零宽空格',
+	'setting.showZeroWidthSpaces.desc': '在编辑器中用 · 标出零宽空格，方便检查和清理（只影响显示，不修改笔记）',
+	'setting.previewChanges': '修改前预览',
+	'setting.previewChanges.desc': '手动执行命令时先显示修改对比，可以全部接受、全部拒绝或逐处选择（自动格式化和静默命令不受影响）',
+	'setting.lintMode': '检查模式',
+	'setting.lintMode.desc': '在编辑器中用下划线标出空格问题，悬停查看说明并可单独修复；不会自动修改笔记',
+
+	'settings.scripts': '文字范围',
+	'settings.scripts.desc': '选择哪些文字被视为中日韩文字（上述规则中的「中文」）。全角标点（，。！）两侧永远不会添加空格。',
+	'script.han': '汉字',
+	'script.han.desc': '包括扩展区汉字（如 㐀、𠀀）和注音符号',
+	'script.kana': '日文假名',
+	'script.kana.desc': '平假名与片假名，如 ひらがな、カタカナ',
+	'script.hangul': '韩文',
+	'script.hangul.desc': '谚文字母，如 한국어',
+
+	'settings.mixed': '中英文混排',
+	'settings.mixed.desc': '可选的 pangu 风格规则。开启后可替代 linter 的中英文空格规则，避免两者冲突。',
+	'setting.spaceBetweenChineseAndEnglish': '中文与英文之间添加空格',
+	'setting.spaceBetweenChineseAndEnglish.desc': '使用Obsidian → 使用 Obsidian',
+	'setting.spaceBetweenChineseAndNumber': '中文与数字之间添加空格',
+	'setting.spaceBetweenChineseAndNumber.desc': '共100个 → 共 100 个',
+	'setting.normalizePunctuationSpacing': '规范标点符号周围的空格',
+	'setting.normalizePunctuationSpacing.desc': '去除全角标点两侧的空格：中文 ， 英文 → 中文，英文',
+
+	'settings.protection': '保护规则',
+	'setting.skipCodeBlocks': '跳过代码块',
+	'setting.skipCodeBlocks.desc': '不修改 ``` 代码块内的内容',
+	'setting.skipInlineCode': '跳过行内代码',
+	'setting.skipInlineCode.desc': '不修改 `code` 内的内容',
+	'setting.skipFrontmatter': '跳过 frontmatter',
+	'setting.skipFrontmatter.desc': '不修改笔记开头 --- 之间的 YAML 属性',
+	'setting.skipComments': '跳过注释',
+	'setting.skipComments.desc': '不修改 %% 注释 %% 内的内容',
+	'setting.skipWikilinks': '跳过双链和嵌入',
+	'setting.skipWikilinks.desc': '不修改 [[链接|别名]] 和 ![[嵌入]]',
+	'setting.skipTags': '跳过标签',
+	'setting.skipTags.desc': '不修改 #标签 和 #嵌套/标签',
+	'setting.skipHtml': '跳过 HTML',
+	'setting.skipHtml.desc': '不修改 <span> 等 HTML 标签和 <!-- --> 注释',
+	'setting.skipLinkUrls': '跳过链接地址',
+	'setting.skipLinkUrls.desc': '不修改 [文本](地址) 中的地址和链接引用定义，链接文本仍会处理',
+	'setting.skipFootnotes': '跳过脚注',
+	'setting.skipFootnotes.desc': '不修改 [^1] 脚注引用和脚注定义标记',
+	'setting.skipBlockIds': '跳过块 ID',
+	'setting.skipBlockIds.desc': '不修改行尾的 ^block-id',
+
+	'settings.autoFormat': '自动格式化',
+	'settings.autoFormat.desc': '在笔记的 frontmatter 中添加 smart-spacing: false 可以让单篇笔记跳过自动格式化（手动命令仍然有效）。点击左侧边栏的魔杖图标或使用「Toggle automatic formatting for this session」命令可以暂停自动格式化，直到重启 Obsidian。',
+	'setting.formatOnSave': '保存时格式化',
+	'setting.formatOnSave.desc': '使用保存命令（Ctrl/Cmd + S）时自动修复当前笔记',
+	'setting.formatOnType': '输入时格式化',
+	'setting.formatOnType.desc': '输入结束标记（如 ** 或 *）或离开正在编辑的行时，自动修复该行',
+	'setting.formatOnTypeDelay': '输入时格式化的延迟',
+	'setting.formatOnTypeDelay.desc': '停止输入多少毫秒后再修复',
+
+	'settings.statusBar': '状态栏',
+	'setting.showStatusBar': '显示问题数量',
+	'setting.showStatusBar.desc': '在状态栏显示当前笔记中待修复的空格问题数量，编辑后自动更新',
+	'setting.statusBarAction': '点击状态栏时',
+	'statusBarAction.format': '修复当前笔记',
+	'statusBarAction.issues': '打开问题列表',
+
+	'settings.batch': '批量格式化',
+	'settings.batch.desc': '使用「Fix spacing in all notes」或「Fix spacing in folder」命令批量处理笔记。会先列出将被修改的笔记供确认；frontmatter 中设置了 smart-spacing: false 的笔记会被跳过。',
+	'setting.batchInclude': '包含的路径',
+	'setting.batchInclude.desc': '每行一个 glob 模式，如 notes/**/*.md；留空表示包含所有笔记',
+	'setting.batchExclude': '排除的路径',
+	'setting.batchExclude.desc': '每行一个 glob 模式，如 templates/ 或 **/*.excalidraw.md',
+
+	'settings.snapshots': '快照',
+	'settings.snapshots.desc': '格式化只会增删空格：写入前会检查，若有其他字符被改动则放弃修改。每次修改笔记前还会保存原文，可用「Restore previous version」命令恢复。',
+	'setting.snapshotLimit': '每篇笔记保留的快照数',
+	'setting.snapshotLimit.desc': '快照保存在插件目录中；设为 0 则不保存',
+
+	'linter.heading': '📋 配合 linter 使用',
+	'linter.status': '检测状态',
+	'linter.recheck': '重新检测',
+	'linter.status.missing': '未检测到 linter 插件。也可以只使用本插件的命令和自动格式化。',
+	'linter.status.disabled': 'Linter 已安装但未启用。',
+	'linter.status.not-configured': '⚠️ Linter 已启用，但还没有添加本插件的命令，请按下方步骤添加。',
+	'linter.status.configured': '✅ Linter 已启用，并已在格式化时调用本插件。',
+	'linter.guide.intro': '在 linter 设置中添加 custom command：',
+	'linter.guide.open': '打开 linter 设置 → custom commands',
+	'linter.guide.add': '添加命令：',
+	'linter.guide.result': 'Linter 会在格式化时自动调用本插件',
+	'linter.guide.roles': '分工说明：',
+	'linter.guide.plugin': '本插件负责',
+	'linter.guide.plugin.role': '：加粗/斜体的空格处理（状态机算法，不会出错）',
+	'linter.guide.linter': 'Linter 负责',
+	'linter.guide.linter.role': '：其他格式化（中英文空格、中数字空格也可交给 linter，或开启上方的中英文混排规则）',
+
+	'customRules.heading': '自定义规则',
+	'customRules.desc': '定义标记外侧紧邻某类字符时的处理方式，如「加粗 + 拉丁字母 → 添加空格」。规则从上到下匹配，第一条匹配的规则优先于上方的开关；没有匹配时使用上方的开关。',
+	'customRules.invalidPattern': '正则表达式无效，此规则不会生效',
+	'customRules.moveUp': '上移',
+	'customRules.add': '添加自定义规则',
+	'delimiter.bold': '加粗',
+	'delimiter.italic': '斜体',
+	'delimiter.strikethrough': '删除线',
+	'delimiter.highlight': '高亮',
+	'delimiter.code': '行内代码',
+	'charClass.cjk': '中日韩文字',
+	'charClass.latin': '拉丁字母',
+	'charClass.digit': '数字',
+	'charClass.emoji': 'Emoji',
+	'charClass.fullwidth-punctuation': '全角标点',
+	'charClass.custom': '自定义正则',
+	'action.space': '添加空格',
+	'action.zero-width': '添加零宽空格',
+	'action.none': '不加空格',
+
+	'profiles.heading': '配置方案',
+	'profiles.desc': '为不同文件夹或标签的笔记使用不同的规则。配置方案只覆盖其中设置的规则，其余规则跟随上方的全局设置。单篇笔记可以在 frontmatter 中用 smart-spacing: 方案名 指定方案，或直接覆盖单个规则。',
+	'profiles.activeNote': '当前笔记（{note}）使用：{profile}',
+	'profiles.global': '全局设置',
+	'profiles.noteOverrides': '，并有 frontmatter 覆盖',
+	'profiles.overrides': '覆盖 {count} 条规则',
+	'profiles.overrides.one': '覆盖 1 条规则',
+	'profiles.edit': '编辑规则',
+	'profiles.add': '添加配置方案',
+	'profiles.defaultName': '方案 {number}',
+	'profiles.rules': '使用规则',
+	'profiles.rules.desc': '每条规则匹配路径 glob（如 notes/ja/）或标签（如 #english），从上到下第一条匹配的规则生效',
+	'profiles.addRule': '添加规则',
+	'profileModal.title': '配置方案：{name}',
+	'profileModal.inherit': '跟随全局设置',
+	'profileModal.on': '开启',
+	'profileModal.off': '关闭',
+	'delete': '删除',
+	'cancel': '取消',
+
+	'notice.noChanges': 'Smart spacing：无需修改{profile}。',
+	'notice.fixed': 'Smart spacing 已修复{profile}',
+	'notice.profile': '方案：{name}',
+	'notice.noteOverrides': 'frontmatter 覆盖',
+	'notice.emphasisProblems': 'Smart spacing：{count} 个未配对或交叉的强调标记未作修改（第 {lines} 行）。',
+	'notice.changedDuringPreview': 'Smart spacing：预览期间笔记已被修改，未应用任何更改。',
+	'notice.integrity': 'Smart spacing：未作任何修改，格式化将改动空格以外的内容（{problem}）。请报告此问题。',
+	'notice.integrityProblem': '第 {line} 行第 {column} 列：{before} 变为 {after}',
+	'notice.noZeroWidthSpaces': 'Smart spacing：没有需要转换的零宽空格。',
+	'notice.zeroWidthSpacesConverted': 'Smart spacing：零宽空格已转换。',
+	'notice.noSnapshots': 'Smart spacing：这篇笔记没有较早的版本。',
+	'notice.restored': 'Smart spacing：已恢复 {time} 的版本。',
+	'notice.paused': 'Smart spacing：本次会话已暂停自动格式化。',
+	'notice.resumed': 'Smart spacing：已恢复自动格式化。',
+	'ribbon.pause': '暂停自动格式化空格',
+	'ribbon.resume': '恢复自动格式化空格',
+	'menu.folder': '修复文件夹中的空格',
+	'menu.selection': '修复选中文本的空格',
+	'menu.paragraph': '修复当前段落的空格',
+	'menu.section': '修复当前章节的空格',
+
+	'batch.noNotes': 'Smart spacing：没有需要格式化的笔记。',
+	'batch.checking': 'Smart spacing：正在检查笔记',
+	'batch.formatting': 'Smart spacing：正在格式化笔记',
+	'batch.cancelled': 'Smart spacing：已取消批量格式化。',
+	'batch.cancelledAfter': 'Smart spacing：已取消，完成 {done}/{total} 篇笔记。',
+	'batch.fixed': 'Smart spacing 已修复 {count} 篇笔记。',
+	'batch.integrity': 'Smart spacing：{count} 篇笔记未被修改，格式化将改动空格以外的内容。请报告此问题。',
+	'batch.report.title': 'Smart spacing：试运行',
+	'batch.report.summary': '{scope} 中有 {count} 篇笔记将被修改（共 {edits} 处）。',
+	'batch.report.vault': '整个仓库',
+	'batch.report.edits': '{count} 处修改',
+	'batch.report.edits.one': '1 处修改',
+	'batch.report.apply': '应用修改',
+	'batch.folderPlaceholder': '选择要格式化的文件夹',
+
+	'preview.title': 'Smart spacing：预览修改',
+	'preview.summary': '{count} 行有修改。取消勾选可保留原文。',
+	'preview.summary.one': '1 行有修改。取消勾选可保留原文。',
+	'preview.reject': '全部拒绝',
+	'preview.applySelected': '应用选中',
+	'preview.accept': '全部接受',
+
+	'issues.title': '空格问题',
+	'issues.empty': '打开一篇笔记以查看其空格问题。',
+	'issues.count': '{note}：{count} 个问题',
+	'issues.count.one': '{note}：1 个问题',
+	'issues.location': '第 {line} 行，第 {column} 列',
+	'issues.fixAll': '全部修复',
+	'issues.fix': '修复',
+	'statusBar.none': '没有空格问题',
+	'statusBar.count': '{count} 个空格问题',
+	'statusBar.count.one': '1 个空格问题',
+	'statusBar.paused': '（自动格式化已暂停）',
+	'statusBar.clickToFix': '点击修复空格',
+	'statusBar.clickToShow': '点击查看空格问题',
+
+	'snapshots.placeholder': '选择要恢复的版本',
+	'snapshots.lines': '{time} — {count} 行',
+	'snapshots.lines.one': '{time} — 1 行',
+
+	'invisibles.zeroWidthSpace': '零宽空格',
+
+	'diagnostic.internal-bold-space': '强调标记内侧有空格',
+	'diagnostic.cjk-bold-boundary': '文字与加粗之间缺少空格',
+	'diagnostic.cjk-italic-boundary': '中日韩文字与斜体之间缺少空格',
+	'diagnostic.cjk-strikethrough-boundary': '中日韩文字与删除线之间缺少空格',
+	'diagnostic.cjk-highlight-boundary': '中日韩文字与高亮之间缺少空格',
+	'diagnostic.cjk-latin-spacing': '中日韩文字与拉丁字母之间缺少空格',
+	'diagnostic.punctuation-spacing': '标点符号旁有多余空格',
+	'diagnostic.cjk-inline-code-boundary': '中日韩文字与行内代码之间缺少空格',
+	'diagnostic.unmatched-emphasis': '强调标记在本段中没有配对，不会被修改',
+	'diagnostic.crossing-emphasis': '强调标记相互交叉，不会被修改',
+};
+
+const ja: Record<TranslationKey, string> = {
+	'settings.intro': '💡 このプラグインは太字・斜体まわりのスペースの処理に特化しています。Linter プラグインとの併用をおすすめします。',
+	'settings.language': '言語',
+	'settings.language.desc': '設定、通知、問題の説明に使う言語。コマンド名は常に英語のままです。',
+	'settings.language.auto': 'Obsidian に合わせる',
+
+	'settings.core': '基本機能',
+	'setting.removeInternalBoldSpaces': '太字・斜体の内側のスペースを削除',
+	'setting.removeInternalBoldSpaces.desc': '** テキスト ** → **テキスト**、* テキスト * → *テキスト* に修正',
+	'setting.spaceBetweenChineseAndBold': '中国語と太字の間にスペースを入れる',
+	'setting.spaceBetweenChineseAndBold.desc': '中文**加粗** → 中文 **加粗**',
+	'setting.spaceBetweenEnglishAndBold': '英語と太字の間にスペースを入れる',
+	'setting.spaceBetweenEnglishAndBold.desc': 'Word**bold** → Word **bold**（通常は不要）',
+	'setting.spaceBetweenChineseAndItalic': '中国語と斜体の間にスペースを入れる',
+	'setting.spaceBetweenChineseAndItalic.desc': '中文*斜体* → 中文 *斜体*',
+	'setting.spaceBetweenChineseAndStrikethrough': '中国語と取り消し線の間にスペースを入れる',
+	'setting.spaceBetweenChineseAndStrikethrough.desc': '中文~~ 删除 ~~ → 中文 ~~删除~~（内側のスペースは最初のスイッチに従います）',
+	'setting.spaceBetweenChineseAndHighlight': '中国語とハイライトの間にスペースを入れる',
+	'setting.spaceBetweenChineseAndHighlight.desc': '中文==高亮== → 中文 ==高亮==（内側のスペースは最初のスイッチに従います）',
+	'setting.spaceBetweenChineseAndInlineCode': '中国語とインラインコードの間にスペースを入れる',
+	'setting.spaceBetweenChineseAndInlineCode.desc': '中文`code`中文 → 中文 `code` 中文（コード自体は変更しません）',
+	'setting.useZeroWidthSpace': 'ゼロ幅スペースを使う',
+	'setting.useZeroWidthSpace.desc': '通常のスペースの代わりにゼロ幅スペース (\\u200B) を入れます。見た目の隙間はできませんが、書式は正しく表示されます',
+	'setting.showZeroWidthSpaces': 'ゼロ幅スペースを表示',
+	'setting.showZeroWidthSpaces.desc': 'エディタでゼロ幅スペースを · で示し、確認や削除をしやすくします（表示のみで、ノートは変更しません）',
+	'setting.previewChanges': '変更をプレビュー',
+	'setting.previewChanges.desc': '手動のコマンドでは先に差分を表示し、すべて適用・すべて破棄・個別に選択できます（自動整形とサイレントコマンドには影響しません）',
+	'setting.lintMode': 'チェックモード',
+	'setting.lintMode.desc': 'エディタでスペースの問題に下線を引き、ホバーで説明と個別の修正を表示します。ノートは自動では変更しません',
+
+	'settings.scripts': '対象の文字',
+	'settings.scripts.desc': 'どの文字を CJK 文字（上のルールの「中国語」）として扱うかを選びます。全角の句読点（，。！）の両側には決してスペースを入れません。',
+	'script.han': '漢字',
+	'script.han.desc': '拡張領域の漢字（㐀、𠀀 など）と注音符号を含みます',
+	'script.kana': '仮名',
+	'script.kana.desc': 'ひらがなとカタカナ',
+	'script.hangul': 'ハングル',
+	'script.hangul.desc': '한국어 などの韓国語の文字',
+
+	'settings.mixed': '和欧混植',
+	'settings.mixed.desc': 'pangu 風のオプションのルールです。有効にすると Linter の和欧間スペースのルールの代わりに使え、両者の衝突を避けられます。',
+	'setting.spaceBetweenChineseAndEnglish': '中国語と英語の間にスペースを入れる',
+	'setting.spaceBetweenChineseAndEnglish.desc': '使用Obsidian → 使用 Obsidian',
+	'setting.spaceBetweenChineseAndNumber': '中国語と数字の間にスペースを入れる',
+	'setting.spaceBetweenChineseAndNumber.desc': '共100个 → 共 100 个',
+	'setting.normalizePunctuationSpacing': '句読点まわりのスペースを整える',
+	'setting.normalizePunctuationSpacing.desc': '全角の句読点の両側のスペースを削除：中文 ， 英文 → 中文，英文',
+
+	'settings.protection': '保護する内容',
+	'setting.skipCodeBlocks': 'コードブロックをスキップ',
+	'setting.skipCodeBlocks.desc': '``` コードブロックの中身は変更しません',
+	'setting.skipInlineCode': 'インラインコードをスキップ',
+	'setting.skipInlineCode.desc': '`code` の中身は変更しません',
+	'setting.skipFrontmatter': 'フロントマターをスキップ',
+	'setting.skipFrontmatter.desc': 'ノート冒頭の --- で囲まれた YAML プロパティは変更しません',
+	'setting.skipComments': 'コメントをスキップ',
+	'setting.skipComments.desc': '%% コメント %% の中身は変更しません',
+	'setting.skipWikilinks': 'ウィキリンクと埋め込みをスキップ',
+	'setting.skipWikilinks.desc': '[[リンク|別名]] と ![[埋め込み]] は変更しません',
+	'setting.skipTags': 'タグをスキップ',
+	'setting.skipTags.desc': '#タグ と #入れ子/タグ は変更しません',
+	'setting.skipHtml': 'HTML をスキップ',
+	'setting.skipHtml.desc': '<span> などの HTML タグと <!-- --> コメントは変更しません',
+	'setting.skipLinkUrls': 'リンク先をスキップ',
+	'setting.skipLinkUrls.desc': '[テキスト](URL) の URL とリンク参照定義は変更しません。リンクテキストは処理されます',
+	'setting.skipFootnotes': '脚注をスキップ',
+	'setting.skipFootnotes.desc': '[^1] 脚注参照と脚注定義の記号は変更しません',
+	'setting.skipBlockIds': 'ブロック ID をスキップ',
+	'setting.skipBlockIds.desc': '行末の ^block-id は変更しません',
+
+	'settings.autoFormat': '自動整形',
+	'settings.autoFormat.desc': 'ノートのフロントマターに smart-spacing: false を追加すると、そのノートは自動整形されません（手動のコマンドは使えます）。左のリボンの杖アイコンをクリックするか「Toggle automatic formatting for this session」コマンドを使うと、Obsidian を再起動するまで自動整形を一時停止できます。',
+	'setting.formatOnSave': '保存時に整形',
+	'setting.formatOnSave.desc': '保存コマンド（Ctrl/Cmd + S）で保存するときに現在のノートを修正します',
+	'setting.formatOnType': '入力時に整形',
+	'setting.formatOnType.desc': '閉じ記号（** や * など）を入力したとき、または編集中の行を離れたときにその行を修正します',
+	'setting.formatOnTypeDelay': '入力時の整形までの待ち時間',
+	'setting.formatOnTypeDelay.desc': '入力が止まってから何ミリ秒後に修正するか',
+
+	'settings.statusBar': 'ステータスバー',
+	'setting.showStatusBar': '問題の数を表示',
+	'setting.showStatusBar.desc': '現在のノートのスペースの問題の数をステータスバーに表示し、編集に合わせて更新します',
+	'setting.statusBarAction': 'ステータスバーをクリックしたとき',
+	'statusBarAction.format': '現在のノートを修正',
+	'statusBarAction.issues': '問題の一覧を開く',
+
+	'settings.batch': '一括整形',
+	'settings.batch.desc': '「Fix spacing in all notes」または「Fix spacing in folder」コマンドで複数のノートをまとめて整形します。変更されるノートを先に一覧で確認でき、フロントマターに smart-spacing: false があるノートはスキップされます。',
+	'setting.batchInclude': '対象のパス',
+	'setting.batchInclude.desc': '1 行に 1 つの glob パターン（notes/**/*.md など）。空欄ならすべてのノートが対象です',
+	'setting.batchExclude': '除外するパス',
+	'setting.batchExclude.desc': '1 行に 1 つの glob パターン（templates/ や **/*.excalidraw.md など）',
+
+	'settings.snapshots': 'スナップショット',
+	'settings.snapshots.desc': '整形で変わるのはスペースだけです。書き込む前に確認し、ほかの文字が変わる場合は変更を取りやめます。変更のたびに元のテキストも保存され、「Restore previous version」コマンドで復元できます。',
+	'setting.snapshotLimit': 'ノートごとに保持するスナップショット数',
+	'setting.snapshotLimit.desc': 'スナップショットはプラグインのフォルダに保存されます。0 にすると保存しません',
+
+	'linter.heading': '📋 Linter との併用',
+	'linter.status': '検出状況',
+	'linter.recheck': '再検出',
+	'linter.status.missing': 'Linter プラグインが見つかりません。このプラグインのコマンドと自動整形だけでも使えます。',
+	'linter.status.disabled': 'Linter はインストールされていますが、有効になっていません。',
+	'linter.status.not-configured': '⚠️ Linter は有効ですが、このプラグインのコマンドがまだ追加されていません。下の手順で追加してください。',
+	'linter.status.configured': '✅ Linter は有効で、整形時にこのプラグインを呼び出します。',
+	'linter.guide.intro': 'Linter の設定にカスタムコマンドを追加します：',
+	'linter.guide.open': 'Linter の設定 → Custom commands を開く',
+	'linter.guide.add': 'コマンドを追加：',
+	'linter.guide.result': 'Linter が整形するたびにこのプラグインが呼び出されます',
+	'linter.guide.roles': '役割分担：',
+	'linter.guide.plugin': 'このプラグイン',
+	'linter.guide.plugin.role': '：太字・斜体まわりのスペース（状態機械で処理するので記号の対応を誤りません）',
+	'linter.guide.linter': 'Linter',
+	'linter.guide.linter.role': '：そのほかの整形（和欧間・和数字間のスペースも Linter に任せるか、上の和欧混植のルールを有効にします）',
+
+	'customRules.heading': 'カスタムルール',
+	'customRules.desc': '記号のすぐ外側にある文字の種類ごとに処理を決めます（例：「太字 + ラテン文字 → スペースを入れる」）。ルールは上から順に照合され、最初に一致したルールが上のスイッチより優先されます。一致しない場合は上のスイッチに従います。',
+	'customRules.invalidPattern': '正規表現が無効なため、このルールは適用されません',
+	'customRules.moveUp': '上へ移動',
+	'customRules.add': 'カスタムルールを追加',
+	'delimiter.bold': '太字',
+	'delimiter.italic': '斜体',
+	'delimiter.strikethrough': '取り消し線',
+	'delimiter.highlight': 'ハイライト',
+	'delimiter.code': 'インラインコード',
+	'charClass.cjk': 'CJK 文字',
+	'charClass.latin': 'ラテン文字',
+	'charClass.digit': '数字',
+	'charClass.emoji': '絵文字',
+	'charClass.fullwidth-punctuation': '全角の句読点',
+	'charClass.custom': 'カスタム正規表現',
+	'action.space': 'スペースを入れる',
+	'action.zero-width': 'ゼロ幅スペースを入れる',
+	'action.none': 'スペースを入れない',
+
+	'profiles.heading': 'プロファイル',
+	'profiles.desc': 'フォルダやタグごとに異なるルールを使います。プロファイルは設定したルールだけを上書きし、そのほかは上のグローバル設定に従います。ノートごとに、フロントマターの smart-spacing: プロファイル名 でプロファイルを指定したり、個々のルールを直接上書きしたりできます。',
+	'profiles.activeNote': '現在のノート（{note}）の設定：{profile}',
+	'profiles.global': 'グローバル設定',
+	'profiles.noteOverrides': '、フロントマターで上書きあり',
+	'profiles.overrides': '{count} 個のルールを上書き',
+	'profiles.overrides.one': '1 個のルールを上書き',
+	'profiles.edit': 'ルールを編集',
+	'profiles.add': 'プロファイルを追加',
+	'profiles.defaultName': 'プロファイル {number}',
+	'profiles.rules': '適用ルール',
+	'profiles.rules.desc': '各ルールはパスの glob（notes/ja/ など）かタグ（#english など）に一致します。上から順に、最初に一致したルールが適用されます',
+	'profiles.addRule': 'ルールを追加',
+	'profileModal.title': 'プロファイル：{name}',
+	'profileModal.inherit': 'グローバル設定に従う',
+	'profileModal.on': 'オン',
+	'profileModal.off': 'オフ',
+	'delete': '削除',
+	'cancel': 'キャンセル',
+
+	'notice.noChanges': 'Smart spacing：変更の必要はありません{profile}。',
+	'notice.fixed': 'Smart spacing で修正しました{profile}',
+	'notice.profile': 'プロファイル：{name}',
+	'notice.noteOverrides': 'フロントマターで上書き',
+	'notice.emphasisProblems': 'Smart spacing：対応のない、または交差している強調記号 {count} 個は変更しませんでした（{lines} 行目）。',
+	'notice.changedDuringPreview': 'Smart spacing：プレビュー中にノートが変更されたため、何も適用しませんでした。',
+	'notice.integrity': 'Smart spacing：整形でスペース以外が変わるため、何も変更しませんでした（{problem}）。不具合として報告してください。',
+	'notice.integrityProblem': '{line} 行 {column} 列：{before} が {after} に',
+	'notice.noZeroWidthSpaces': 'Smart spacing：変換するゼロ幅スペースはありません。',
+	'notice.zeroWidthSpacesConverted': 'Smart spacing：ゼロ幅スペースを変換しました。',
+	'notice.noSnapshots': 'Smart spacing：このノートには以前のバージョンがありません。',
+	'notice.restored': 'Smart spacing：{time} のバージョンを復元しました。',
+	'notice.paused': 'Smart spacing：このセッションの間、自動整形を一時停止しました。',
+	'notice.resumed': 'Smart spacing：自動整形を再開しました。',
+	'ribbon.pause': 'スペースの自動整形を一時停止',
+	'ribbon.resume': 'スペースの自動整形を再開',
+	'menu.folder': 'フォルダ内のスペースを修正',
+	'menu.selection': '選択範囲のスペースを修正',
+	'menu.paragraph': '現在の段落のスペースを修正',
+	'menu.section': '現在のセクションのスペースを修正',
+
+	'batch.noNotes': 'Smart spacing：整形するノートがありません。',
+	'batch.checking': 'Smart spacing：ノートを確認中',
+	'batch.formatting': 'Smart spacing：ノートを整形中',
+	'batch.cancelled': 'Smart spacing：一括整形をキャンセルしました。',
+	'batch.cancelledAfter': 'Smart spacing：{total} 件中 {done} 件でキャンセルしました。',
+	'batch.fixed': 'Smart spacing で {count} 件のノートを修正しました。',
+	'batch.integrity': 'Smart spacing：整形でスペース以外が変わるため、{count} 件のノートを変更しませんでした。不具合として報告してください。',
+	'batch.report.title': 'Smart spacing：ドライラン',
+	'batch.report.summary': '{scope} の {count} 件のノートが変更されます（{edits} か所）。',
+	'batch.report.vault': '保管庫全体',
+	'batch.report.edits': '{count} か所',
+	'batch.report.edits.one': '1 か所',
+	'batch.report.apply': '変更を適用',
+	'batch.folderPlaceholder': '整形するフォルダを選択',
+
+	'preview.title': 'Smart spacing：変更のプレビュー',
+	'preview.summary': '{count} 行が変更されます。チェックを外すと元のテキストのままになります。',
+	'preview.summary.one': '1 行が変更されます。チェックを外すと元のテキストのままになります。',
+	'preview.reject': 'すべて破棄',
+	'preview.applySelected': '選択したものを適用',
+	'preview.accept': 'すべて適用',
+
+	'issues.title': 'スペースの問題',
+	'issues.empty': 'ノートを開くとスペースの問題が表示されます。',
+	'issues.count': '{note}：{count} 件の問題',
+	'issues.count.one': '{note}：1 件の問題',
+	'issues.location': '{line} 行 {column} 列',
+	'issues.fixAll': 'すべて修正',
+	'issues.fix': '修正',
+	'statusBar.none': 'スペースの問題なし',
+	'statusBar.count': 'スペースの問題 {count} 件',
+	'statusBar.count.one': 'スペースの問題 1 件',
+	'statusBar.paused': '（自動整形は一時停止中）',
+	'statusBar.clickToFix': 'クリックしてスペースを修正',
+	'statusBar.clickToShow': 'クリックしてスペースの問題を表示',
+
+	'snapshots.placeholder': '復元するバージョンを選択',
+	'snapshots.lines': '{time} — {count} 行',
+	'snapshots.lines.one': '{time} — 1 行',
+
+	'invisibles.zeroWidthSpace': 'ゼロ幅スペース',
+
+	'diagnostic.internal-bold-space': '強調記号の内側にスペースがあります',
+	'diagnostic.cjk-bold-boundary': '文字と太字の間にスペースがありません',
+	'diagnostic.cjk-italic-boundary': 'CJK 文字と斜体の間にスペースがありません',
+	'diagnostic.cjk-strikethrough-boundary': 'CJK 文字と取り消し線の間にスペースがありません',
+	'diagnostic.cjk-highlight-boundary': 'CJK 文字とハイライトの間にスペースがありません',
+	'diagnostic.cjk-latin-spacing': 'CJK 文字とラテン文字の間にスペースがありません',
+	'diagnostic.punctuation-spacing': '句読点の隣にスペースがあります',
+	'diagnostic.cjk-inline-code-boundary': 'CJK 文字とインラインコードの間にスペースがありません',
+	'diagnostic.unmatched-emphasis': 'この段落に対応する強調記号がないため、変更しません',
+	'diagnostic.crossing-emphasis': '強調記号が交差しているため、変更しません',
+};
+
+export const TRANSLATIONS: Record<Language, Record<TranslationKey, string>> = { en, zh, ja };
+
+let currentLanguage: Language = 'en';
+
+/**
+ * The language for an Obsidian (moment) locale such as 'zh-cn' or 'ja'; English for any other
+ */
+export function detectLanguage(locale: string): Language {
+	const language = locale.toLowerCase();
+	if (language.startsWith('zh')) return 'zh';
+	if (language.startsWith('ja')) return 'ja';
+	return 'en';
+}
+
+export function setLanguage(language: Language): void {
+	currentLanguage = language;
+}
+
+/**
+ * The text for a key in the current language, with {name} placeholders filled in
+ */
+export function t(key: TranslationKey, values: Record<string, string | number> = {}): string {
+	return TRANSLATIONS[currentLanguage][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in values ? String(values[name]) : placeholder);
+}
+
+/**
+ * Like t, with the key's '.one' variant when the count is 1
+ */
+export function tCount(key: TranslationKey, count: number, values: Record<string, string | number> = {}): string {
+	const oneKey = `${key}.one`;
+	return t(count === 1 && oneKey in en ? oneKey as TranslationKey : key, { ...values, count });
+}
+
+/**
+ * Names for the options of a dropdown, e.g. { bold: 'Bold', italic: 'Italic' }
+ */
+export function translateOptions<T extends string>(options: Record<T, TranslationKey>): Record<T, string> {
+	const translated = {} as Record<T, string>;
+	for (const option of Object.keys(options) as T[]) {
+		translated[option] = t(options[option]);
+	}
+	return translated;
+}
+
+/**
+ * The diagnostic message of a lint rule. lintText itself keeps English messages for the CLI.
+ */
+export function getRuleMessage(rule: LintRule): string {
+	return t(`diagnostic.${rule}`);
+}
+
+/**
+ * describeIntegrityProblem in the current language, e.g. line 3, column 5: "中文**粗体" became "中文*粗体"
+ */
+export function translateIntegrityProblem(problem: IntegrityProblem): string {
+	return t('notice.integrityProblem', {
+		line: problem.line + 1,
+		column: problem.column + 1,
+		before: JSON.stringify(problem.before),
+		after: JSON.stringify(problem.after),
+	});
+}
@@ -0,0 +1,57 @@
+/**
+ * Content-integrity check run before formatted text is written: formatting may only
+ * insert or remove spaces, tabs and zero-width spaces, so anything else that changed
+ * means a bug, and the write is aborted instead of risking the note.
+ */
+
+import { offsetToPosition } from './diff';
+
+/**
+ * The first place where the formatted text differs by more than spacing.
+ * Positions are zero-based and refer to the original text.
+ */
+export interface IntegrityProblem {
+	line: number;
+	column: number;
+	// A few characters around the problem, before and after formatting
+	before: string;
+	after: string;
+}
+
+const SPACING_CHARS = new Set([' ', '\t', '\u200B']);
+const CONTEXT_LENGTH = 12;
+
+/**
+ * Compare the texts with all spacing ignored; null when they are equal
+ */
+export function findIntegrityProblem(original: string, formatted: string): IntegrityProblem | null {
+	let i = 0;
+	let j = 0;
+	for (;;) {
+		while (i < original.length && SPACING_CHARS.has(original[i])) i++;
+		while (j < formatted.length && SPACING_CHARS.has(formatted[j])) j++;
+		if (i >= original.length && j >= formatted.length) return null;
+		if (original[i] !== formatted[j]) break;
+		i++;
+		j++;
+	}
+
+	const position = offsetToPosition(original, i);
+	return {
+		line: position.line,
+		column: position.ch,
+		before: getContext(original, i),
+		after: getContext(formatted, j),
+	};
+}
+
+/**
+ * e.g. line 3, column 5: "中文**粗体" became "中文*粗体"
+ */
+export function describeIntegrityProblem(problem: IntegrityProblem): string {
+	return `line ${problem.line + 1}, column ${problem.column + 1}: ${JSON.stringify(problem.before)} became ${JSON.stringify(problem.after)}`;
+}
+
+function getContext(text: string, index: number): string {
+	return text.slice(Math.max(0, index - CONTEXT_LENGTH), index + CONTEXT_LENGTH);
+}
@@ -0,0 +1,46 @@
+/**
+ * Show zero-width spaces in the editor, so they can be found and removed
+ */
+
+import { Extension } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, MatchDecorator, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { t } from './i18n';
+
+class ZeroWidthSpaceWidget extends WidgetType {
+	toDOM(): HTMLElement {
+		const el = document.createElement('span');
+		el.className = 'smart-spacing-zwsp';
+		el.setAttribute('aria-label', t('invisibles.zeroWidthSpace'));
+		el.textContent = '·';
+		return el;
+	}
+
+	eq(): boolean {
+		return true;
+	}
+}
+
+const zeroWidthSpaceMatcher = new MatchDecorator({
+	regexp: /\u200B/g,
+	decoration: () => Decoration.replace({ widget: new ZeroWidthSpaceWidget() }),
+});
+
+/**
+ * Create the editor extension that replaces every zero-width space with a visible marker.
+ * Only the display changes; the note text is untouched.
+ */
+export function createZeroWidthSpaceExtension(): Extension {
+	return ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.decorations = zeroWidthSpaceMatcher.createDeco(view);
+		}
+
+		update(update: ViewUpdate): void {
+			this.decorations = zeroWidthSpaceMatcher.updateDeco(update, this.decorations);
+		}
+	}, {
+		decorations: plugin => plugin.decorations,
+	});
+}
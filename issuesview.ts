@@ -0,0 +1,99 @@
+/**
+ * Side panel listing the spacing problems of the active note
+ */
+
+import { ItemView, MarkdownView, WorkspaceLeaf, debounce } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+import { getRuleMessage, t, tCount } from './i18n';
+import { lintText } from './lint';
+
+export const ISSUES_VIEW_TYPE = 'smart-spacing-issues';
+
+export class SpacingIssuesView extends ItemView {
+	// The note being listed; kept while the panel itself has focus
+	private markdownView: MarkdownView | null = null;
+
+	constructor(leaf: WorkspaceLeaf, private readonly plugin: SmartSpacingPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return ISSUES_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return t('issues.title');
+	}
+
+	getIcon(): string {
+		return 'list-checks';
+	}
+
+	async onOpen(): Promise<void> {
+		this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const refreshLater = debounce(() => this.refresh(), 500, true);
+
+		this.registerEvent(this.app.workspace.on('active-leaf-change', leaf => {
+			if (leaf?.view instanceof MarkdownView) {
+				this.markdownView = leaf.view;
+				this.refresh();
+			}
+		}));
+		this.registerEvent(this.app.workspace.on('editor-change', (_editor, info) => {
+			if (info === this.markdownView) refreshLater();
+		}));
+
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	refresh(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const view = this.markdownView;
+		if (!view?.file) {
+			contentEl.createEl('p', { text: t('issues.empty'), cls: 'pane-empty' });
+			return;
+		}
+
+		const editor = view.editor;
+		const diagnostics = lintText(editor.getValue(), this.plugin.getNoteSettings(view.file));
+
+		const headerEl = contentEl.createDiv({ cls: 'smart-spacing-issues-header' });
+		headerEl.createDiv({ text: tCount('issues.count', diagnostics.length, { note: view.file.basename }) });
+		if (diagnostics.length > 0) {
+			const fixAllButton = headerEl.createEl('button', { text: t('issues.fixAll') });
+			fixAllButton.addEventListener('click', () => {
+				this.plugin.formatEditor(editor, true, view.file);
+				this.refresh();
+			});
+		}
+
+		const listEl = contentEl.createDiv({ cls: 'smart-spacing-issues' });
+		for (const diagnostic of diagnostics) {
+			const itemEl = listEl.createDiv({ cls: 'smart-spacing-issue-item' });
+			itemEl.createDiv({ text: t('issues.location', { line: diagnostic.line + 1, column: diagnostic.column + 1 }), cls: 'smart-spacing-issue-location' });
+			itemEl.createDiv({ text: getRuleMessage(diagnostic.rule) });
+			itemEl.createDiv({ text: diagnostic.rule, cls: 'smart-spacing-rule' });
+			itemEl.addEventListener('click', () => {
+				const position = { line: diagnostic.line, ch: diagnostic.column };
+				this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+				editor.setCursor(position);
+				editor.scrollIntoView({ from: position, to: position }, true);
+			});
+
+			const fix = diagnostic.fix;
+			if (!fix) continue;
+			const fixButton = itemEl.createEl('button', { text: t('issues.fix') });
+			fixButton.addEventListener('click', (event) => {
+				event.stopPropagation();
+				editor.replaceRange(fix.insert, editor.offsetToPos(fix.from), editor.offsetToPos(fix.to));
+				this.refresh();
+			});
+		}
+	}
+}
@@ -0,0 +1,20 @@
+/**
+ * Node library entry point: the processor without any Obsidian dependency
+ *
+ * Built to dist/lib.js next to the command line tool, so the same rules can run
+ * in Git hooks, CI or other scripts.
+ */
+
+export { DEFAULT_SPACING_SETTINGS, findEmphasisProblems, processText, processTextWithRule } from './processor';
+export type { EmphasisProblem, SmartSpacingSettings, SpacingRule } from './processor';
+export { lintText } from './lint';
+export type { LintRule, SpacingDiagnostic } from './lint';
+export { convertZeroWidthSpaces } from './zerowidth';
+export type { ZeroWidthConversion } from './zerowidth';
+export { computeEdits } from './diff';
+export type { TextEdit } from './diff';
+export { describeIntegrityProblem, findIntegrityProblem } from './integrity';
+export type { IntegrityProblem } from './integrity';
+export { parseSpacingSettings } from './config';
+export type { CjkScript } from './cjk';
+export type { CharacterClass, CustomSpacingRule, DelimiterType, SpacingAction } from './customrules';
@@ -0,0 +1,44 @@
+/**
+ * CRLF support: the tokenizer and the fixers work on text with LF line endings
+ *
+ * Notes from other editors or read straight from disk (command line tool, batch
+ * formatting) may end their lines with "\r\n". They are converted to "\n" first and
+ * every line gets its own ending back afterwards, so files with mixed endings keep them.
+ */
+
+/**
+ * Run a transformation that keeps every line break on the LF version of the text,
+ * then restore the original line endings in order
+ */
+export function withLfLineEndings(text: string, transform: (text: string) => string): string {
+	if (!text.includes('\r\n')) return transform(text);
+	const endings = text.match(/\r?\n/g) ?? [];
+	let index = 0;
+	return transform(text.replace(/\r\n/g, '\n')).replace(/\n/g, () => endings[index++] ?? '\n');
+}
+
+/**
+ * The LF version of the text, and a function turning its offsets into offsets of the original
+ */
+export function toLfLineEndings(text: string): { text: string; toOriginalOffset: (offset: number) => number } {
+	// Offsets in the LF text of the line breaks that lost their '\r'
+	const crlfBreaks: number[] = [];
+	const lf = text.replace(/\r\n/g, (_, offset: number) => {
+		crlfBreaks.push(offset - crlfBreaks.length);
+		return '\n';
+	});
+	return {
+		text: lf,
+		toOriginalOffset: offset => {
+			// Count the removed '\r's before the offset
+			let low = 0;
+			let high = crlfBreaks.length;
+			while (low < high) {
+				const mid = (low + high) >> 1;
+				if (crlfBreaks[mid] < offset) low = mid + 1;
+				else high = mid;
+			}
+			return offset + low;
+		},
+	};
+}
@@ -0,0 +1,129 @@
+/**
+ * Lint mode: report spacing problems as diagnostics instead of rewriting the text
+ */
+
+import { charAt, charBefore } from './cjk';
+import { TextEdit, computeEdits } from './diff';
+import { EmphasisProblem, SmartSpacingSettings, SpacingRule, findEmphasisProblems, getEnabledRules, processText, processTextWithRule } from './processor';
+
+/**
+ * Rule id of a diagnostic: a spacing rule, or an emphasis problem the fixers skip
+ */
+export type LintRule = SpacingRule | EmphasisProblem['type'];
+
+/**
+ * A spacing problem found by lintText
+ */
+export interface SpacingDiagnostic {
+	rule: LintRule;
+	message: string;
+	// Zero-based line and column (UTF-16 code units) of 'from'
+	line: number;
+	column: number;
+	// Range to highlight: the whitespace to remove, or the two characters around a missing space
+	from: number;
+	to: number;
+	// Applying this edit to the original text fixes the problem; emphasis problems have no automatic fix
+	fix?: TextEdit;
+}
+
+const RULE_MESSAGES: Record<LintRule, string> = {
+	'internal-bold-space': 'Space inside emphasis markers',
+	'cjk-bold-boundary': 'Missing space between text and bold',
+	'cjk-italic-boundary': 'Missing space between CJK text and italic',
+	'cjk-strikethrough-boundary': 'Missing space between CJK text and strikethrough',
+	'cjk-highlight-boundary': 'Missing space between CJK text and highlight',
+	'cjk-latin-spacing': 'Missing space between CJK and Latin text',
+	'punctuation-spacing': 'Space next to punctuation',
+	'cjk-inline-code-boundary': 'Missing space between CJK text and inline code',
+	'unmatched-emphasis': 'Emphasis marker without a partner in this paragraph; it is left untouched',
+	'crossing-emphasis': 'Emphasis markers cross each other; they are left untouched',
+};
+
+/**
+ * Find every spacing problem the enabled rules would fix.
+ * Each rule runs on its own against the original text, so every diagnostic carries
+ * an independent fix with offsets into that text. Diagnostics are sorted by position.
+ * Fixes that the whole pipeline would undo (one rule removing a space another one adds
+ * back) are not reported, so formatted text has no fixable diagnostics.
+ */
+export function lintText(text: string, settings: SmartSpacingSettings): SpacingDiagnostic[] {
+	const lineStarts = getLineStarts(text);
+	const diagnostics: SpacingDiagnostic[] = [];
+	const seen = new Set<string>();
+	const fullEdits = computeEdits(text, processText(text, settings));
+
+	for (const stepRule of getEnabledRules(settings)) {
+		for (const fix of computeEdits(text, processTextWithRule(text, settings, stepRule))) {
+			if (!isPartOf(fix, fullEdits)) continue;
+			// The strikethrough and highlight fixers also trim internal spaces
+			const rule = fix.insert === '' ? getRemovalRule(stepRule) : stepRule;
+			const key = `${fix.from}:${fix.to}:${fix.insert}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+
+			const isRemoval = fix.to > fix.from;
+			const from = isRemoval ? fix.from : fix.from - (charBefore(text, fix.from)?.length ?? 0);
+			const to = isRemoval ? fix.to : fix.to + (charAt(text, fix.to)?.length ?? 0);
+			const line = findLine(lineStarts, from);
+			diagnostics.push({
+				rule,
+				message: RULE_MESSAGES[rule],
+				line,
+				column: from - lineStarts[line],
+				from,
+				to,
+				fix,
+			});
+		}
+	}
+
+	for (const problem of findEmphasisProblems(text, settings)) {
+		const line = findLine(lineStarts, problem.from);
+		diagnostics.push({
+			rule: problem.type,
+			message: RULE_MESSAGES[problem.type],
+			line,
+			column: problem.from - lineStarts[line],
+			from: problem.from,
+			to: problem.to,
+		});
+	}
+
+	return diagnostics.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/**
+ * Whether the full format makes the same change: removes the same characters or inserts at the same place
+ */
+function isPartOf(fix: TextEdit, edits: TextEdit[]): boolean {
+	return fix.to > fix.from
+		? edits.some(edit => edit.from <= fix.from && edit.to >= fix.to)
+		: edits.some(edit => edit.from <= fix.from && edit.to >= fix.from && edit.insert.length > 0);
+}
+
+function getRemovalRule(rule: SpacingRule): SpacingRule {
+	return rule === 'cjk-strikethrough-boundary' || rule === 'cjk-highlight-boundary' ? 'internal-bold-space' : rule;
+}
+
+function getLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+		starts.push(i + 1);
+	}
+	return starts;
+}
+
+function findLine(lineStarts: number[], offset: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const mid = (low + high + 1) >> 1;
+		if (lineStarts[mid] <= offset) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return low;
+}
@@ -1,35 +1,177 @@
-import { App, Editor, MarkdownView, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { processText, SmartSpacingSettings } from './processor';
+import { App, Command, Editor, EditorPosition, MarkdownFileInfo, MarkdownView, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, getAllTags, moment, normalizePath, setIcon } from 'obsidian';
+import { Extension } from '@codemirror/state';
+import { DEFAULT_SPACING_SETTINGS, findEmphasisProblems, processLines, processText, SmartSpacingSettings } from './processor';
+import { CjkScript } from './cjk';
+import { CharacterClass, CustomSpacingRule, DelimiterType, SpacingAction, isValidPattern } from './customrules';
+import { createFormatOnTypeExtension } from './autoformat';
+import { TextEdit, computeEdits, mapOffset, offsetToPosition } from './diff';
+import { TextRange, getParagraphRange, getSectionRange } from './ranges';
+import { FolderSuggestModal, runBatchFormat } from './batch';
+import { parseGlobList } from './glob';
+import { DiffPreviewModal } from './preview';
+import { createLintExtension } from './diagnostics';
+import { createZeroWidthSpaceExtension } from './invisibles';
+import { ZeroWidthConversion, convertZeroWidthSpaces } from './zerowidth';
+import { ProfileModal } from './profiles';
+import { ProfileRule, ResolvedSettings, RuleProfile, resolveSettings } from './resolve';
+import { ISSUES_VIEW_TYPE, SpacingIssuesView } from './issuesview';
+import { SmartSpacingApi, createApi } from './api';
+import { createDirtyLinesExtension, getDirtyLines, markClean } from './dirtylines';
+import { findIntegrityProblem } from './integrity';
+import { SnapshotStore, SnapshotSuggestModal } from './snapshots';
+import { SpacingStatusBar, StatusBarAction } from './statusbar';
+import { LanguageSetting, TranslationKey, detectLanguage, setLanguage, t, tCount, translateIntegrityProblem, translateOptions } from './i18n';
 
 // ============================================================================
 // Constants & Defaults
 // ============================================================================
 
-const DEFAULT_SETTINGS: SmartSpacingSettings = {
-	removeInternalBoldSpaces: true,
-	spaceBetweenChineseAndBold: true,
-	spaceBetweenEnglishAndBold: false,
-	spaceBetweenChineseAndItalic: true,
-	skipCodeBlocks: true,
-	skipInlineCode: true,
-	useZeroWidthSpace: false,
+/**
+ * Plugin settings: the processor rules plus options that only concern the plugin itself
+ */
+interface SmartSpacingPluginSettings extends SmartSpacingSettings {
+	formatOnSave: boolean;
+	formatOnType: boolean;
+	formatOnTypeDelay: number;
+	// Show a diff preview before manual commands write anything
+	previewChanges: boolean;
+	// Underline spacing problems in the editor instead of only fixing them
+	lintMode: boolean;
+	// Render zero-width spaces as a visible marker in the editor
+	showZeroWidthSpaces: boolean;
+	// Named rule overrides and the folder/tag rules that pick them
+	profiles: RuleProfile[];
+	profileRules: ProfileRule[];
+	// Glob patterns for batch formatting; an empty include list means every note
+	batchInclude: string[];
+	batchExclude: string[];
+	// How many versions of each note to keep from before it was formatted; 0 keeps none
+	snapshotLimit: number;
+	// Issue count of the active note in the status bar, and what clicking it does
+	showStatusBar: boolean;
+	statusBarAction: StatusBarAction;
+	// Language of the interface; 'auto' follows Obsidian's language
+	language: LanguageSetting;
+}
+
+/**
+ * Minimal view of Obsidian's internal command registry, used to hook the save command
+ */
+interface CommandRegistry {
+	commands: Record<string, Command | undefined>;
+}
+
+/**
+ * Minimal view of Obsidian's internal plugin registry and of the Linter plugin's
+ * settings, used to check the Linter integration
+ */
+interface PluginRegistry {
+	manifests: Record<string, unknown>;
+	enabledPlugins: Set<string>;
+	plugins: Record<string, { settings?: { lintCommands?: { id?: string }[] } } | undefined>;
+}
+
+type LinterStatus = 'missing' | 'disabled' | 'not-configured' | 'configured';
+
+const LINTER_PLUGIN_ID = 'obsidian-linter';
+// Commands that format the whole note, suitable as a Linter custom command
+const LINTER_COMMAND_IDS = ['fix-all-spacing', 'fix-all-spacing-silent', 'fix-bold-spacing'];
+
+// Frontmatter key for per-note opt-out of automatic formatting (smart-spacing: false),
+// a profile name (smart-spacing: japanese) or individual rule overrides
+const FRONTMATTER_KEY = 'smart-spacing';
+
+const DEFAULT_SETTINGS: SmartSpacingPluginSettings = {
+	...DEFAULT_SPACING_SETTINGS,
+	formatOnSave: false,
+	formatOnType: false,
+	formatOnTypeDelay: 500,
+	previewChanges: false,
+	lintMode: false,
+	showZeroWidthSpaces: false,
+	profiles: [],
+	profileRules: [],
+	batchInclude: [],
+	batchExclude: [],
+	snapshotLimit: 10,
+	showStatusBar: true,
+	statusBarAction: 'format',
+	language: 'auto',
+};
+
+const LANGUAGE_OPTIONS: Record<Exclude<LanguageSetting, 'auto'>, string> = {
+	'en': 'English',
+	'zh': '中文',
+	'ja': '日本語',
+};
+
+const CJK_SCRIPT_OPTIONS: { script: CjkScript; name: TranslationKey; desc: TranslationKey }[] = [
+	{ script: 'han', name: 'script.han', desc: 'script.han.desc' },
+	{ script: 'kana', name: 'script.kana', desc: 'script.kana.desc' },
+	{ script: 'hangul', name: 'script.hangul', desc: 'script.hangul.desc' },
+];
+
+const LINTER_STATUS_TEXT: Record<LinterStatus, TranslationKey> = {
+	'missing': 'linter.status.missing',
+	'disabled': 'linter.status.disabled',
+	'not-configured': 'linter.status.not-configured',
+	'configured': 'linter.status.configured',
+};
+
+const STATUS_BAR_ACTION_OPTIONS: Record<StatusBarAction, TranslationKey> = {
+	'format': 'statusBarAction.format',
+	'issues': 'statusBarAction.issues',
+};
+
+const DELIMITER_OPTIONS: Record<DelimiterType, TranslationKey> = {
+	bold: 'delimiter.bold',
+	italic: 'delimiter.italic',
+	strikethrough: 'delimiter.strikethrough',
+	highlight: 'delimiter.highlight',
+	code: 'delimiter.code',
+};
+
+const CHARACTER_CLASS_OPTIONS: Record<CharacterClass, TranslationKey> = {
+	'cjk': 'charClass.cjk',
+	'latin': 'charClass.latin',
+	'digit': 'charClass.digit',
+	'emoji': 'charClass.emoji',
+	'fullwidth-punctuation': 'charClass.fullwidth-punctuation',
+	'custom': 'charClass.custom',
+};
+
+const SPACING_ACTION_OPTIONS: Record<SpacingAction, TranslationKey> = {
+	'space': 'action.space',
+	'zero-width': 'action.zero-width',
+	'none': 'action.none',
 };
 
 // ============================================================================
 // Main Plugin Class
 // ============================================================================
 export default class SmartSpacingPlugin extends Plugin {
-	settings: SmartSpacingSettings;
+	settings: SmartSpacingPluginSettings;
+	// Public API for other plugins and scripts: app.plugins.plugins['smart-spacing-chinese'].api
+	readonly api: SmartSpacingApi = createApi(this);
+	// Versions of notes from before they were formatted, in the plugin folder
+	snapshots: SnapshotStore;
+	// Format on save and as you type are paused until Obsidian restarts (not saved)
+	autoFormatPaused = false;
+	private statusBar: SpacingStatusBar;
+	private autoFormatRibbonEl: HTMLElement;
+	// Editor extensions that are switched on and off with the settings
+	private readonly optionalExtensions: Extension[] = [];
 
 	async onload() {
 		await this.loadSettings();
+		this.snapshots = new SnapshotStore(this.app, normalizePath(`${this.manifest.dir ?? ''}/snapshots`), () => this.settings.snapshotLimit);
 
 		// Command: Fix all spacing (designed for Linter custom command)
 		this.addCommand({
 			id: 'fix-all-spacing',
 			name: 'Fix all spacing',
-			editorCallback: (editor: Editor, _view: MarkdownView) => {
-				this.formatEditor(editor, true);
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				this.formatEditor(editor, true, view.file);
 			}
 		});
 
@@ -37,8 +179,8 @@ export default class SmartSpacingPlugin extends Plugin {
 		this.addCommand({
 			id: 'fix-bold-spacing',
 			name: 'Fix bold spacing only',
-			editorCallback: (editor: Editor, _view: MarkdownView) => {
-				this.formatEditor(editor, true);
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				this.formatEditor(editor, true, view.file);
 			}
 		});
 
@@ -46,11 +188,183 @@ export default class SmartSpacingPlugin extends Plugin {
 		this.addCommand({
 			id: 'fix-all-spacing-silent',
 			name: 'Fix all spacing (silent)',
-			editorCallback: (editor: Editor, _view: MarkdownView) => {
-				this.formatEditor(editor, false);
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				this.formatEditor(editor, false, view.file);
+			}
+		});
+
+		// Command: Fix only the selected text (every selection when there are several)
+		this.addCommand({
+			id: 'fix-selection-spacing',
+			name: 'Fix spacing in selection',
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				if (!editor.somethingSelected()) return false;
+				if (!checking) {
+					this.formatSelections(editor, view.file);
+				}
+				return true;
+			}
+		});
+
+		// Command: Fix the paragraph under the cursor
+		this.addCommand({
+			id: 'fix-paragraph-spacing',
+			name: 'Fix spacing in current paragraph',
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				this.formatParagraph(editor, view.file);
+			}
+		});
+
+		// Command: Fix the heading section under the cursor
+		this.addCommand({
+			id: 'fix-section-spacing',
+			name: 'Fix spacing in current section',
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				this.formatSection(editor, view.file);
 			}
 		});
 
+		// Command: Batch format every note in the vault (dry run first)
+		this.addCommand({
+			id: 'fix-vault-spacing',
+			name: 'Fix spacing in all notes',
+			callback: () => {
+				void runBatchFormat(this, this.app.vault.getRoot());
+			}
+		});
+
+		// Command: Batch format the notes in a chosen folder (dry run first)
+		this.addCommand({
+			id: 'fix-folder-spacing',
+			name: 'Fix spacing in folder',
+			callback: () => {
+				new FolderSuggestModal(this.app, folder => {
+					void runBatchFormat(this, folder);
+				}).open();
+			}
+		});
+
+		// File explorer context menu entry for folders
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFolder)) return;
+			menu.addItem(item => item
+				.setTitle(t('menu.folder'))
+				.setIcon('wand-2')
+				.onClick(() => {
+					void runBatchFormat(this, file);
+				}));
+		}));
+
+		// Commands: Clean up zero-width spaces next to markers in the current note
+		const zeroWidthCommands: { id: string; name: string; conversion: ZeroWidthConversion }[] = [
+			{ id: 'remove-zero-width-spaces', name: 'Remove zero-width spaces', conversion: 'remove' },
+			{ id: 'zero-width-spaces-to-spaces', name: 'Convert zero-width spaces to regular spaces', conversion: 'to-space' },
+			{ id: 'spaces-to-zero-width-spaces', name: 'Convert spaces next to markers to zero-width spaces', conversion: 'from-space' },
+		];
+		for (const command of zeroWidthCommands) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+					this.convertZeroWidthSpaces(editor, command.conversion, view.file);
+				}
+			});
+		}
+
+		// Commands: Clean up zero-width spaces in every note (dry run first)
+		this.addCommand({
+			id: 'remove-vault-zero-width-spaces',
+			name: 'Remove zero-width spaces in all notes',
+			callback: () => {
+				void runBatchFormat(this, this.app.vault.getRoot(),
+					(content, file) => convertZeroWidthSpaces(content, 'remove', this.getNoteSettings(file)));
+			}
+		});
+		this.addCommand({
+			id: 'vault-zero-width-spaces-to-spaces',
+			name: 'Convert zero-width spaces to regular spaces in all notes',
+			callback: () => {
+				void runBatchFormat(this, this.app.vault.getRoot(),
+					(content, file) => convertZeroWidthSpaces(content, 'to-space', this.getNoteSettings(file)));
+			}
+		});
+
+		// Command: Bring back a version of the note from before it was formatted
+		this.addCommand({
+			id: 'restore-snapshot',
+			name: 'Restore previous version',
+			editorCallback: (editor: Editor, view: MarkdownView | MarkdownFileInfo) => {
+				if (view.file) void this.restoreSnapshot(editor, view.file);
+			}
+		});
+
+		// Keep the snapshots of renamed notes and drop those of deleted ones
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (file instanceof TFile) void this.snapshots.rename(oldPath, file.path);
+		}));
+		this.registerEvent(this.app.vault.on('delete', file => {
+			if (file instanceof TFile) void this.snapshots.delete(file.path);
+		}));
+		// Notes deleted while the plugin was off; the vault is only complete once the layout is ready
+		this.app.workspace.onLayoutReady(() => {
+			void this.snapshots.prune(path => this.app.vault.getAbstractFileByPath(path) instanceof TFile);
+		});
+
+		// Command and ribbon icon: Pause automatic formatting for this session
+		this.addCommand({
+			id: 'toggle-auto-format',
+			name: 'Toggle automatic formatting for this session',
+			callback: () => this.toggleAutoFormat()
+		});
+		this.autoFormatRibbonEl = this.addRibbonIcon('wand-2', '', () => this.toggleAutoFormat());
+		this.updateAutoFormatRibbon();
+
+		// Status bar: issue count of the active note
+		this.statusBar = new SpacingStatusBar(this);
+
+		// Command: Open the side panel listing the issues of the active note
+		this.addCommand({
+			id: 'show-spacing-issues',
+			name: 'Show spacing issues',
+			callback: () => {
+				void this.activateIssuesView();
+			}
+		});
+
+		// Editor context menu entries for the partial commands
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, info) => {
+			if (editor.somethingSelected()) {
+				menu.addItem(item => item
+					.setTitle(t('menu.selection'))
+					.setIcon('wand-2')
+					.onClick(() => this.formatSelections(editor, info.file)));
+			}
+			menu.addItem(item => item
+				.setTitle(t('menu.paragraph'))
+				.setIcon('pilcrow')
+				.onClick(() => this.formatParagraph(editor, info.file)));
+			menu.addItem(item => item
+				.setTitle(t('menu.section'))
+				.setIcon('heading')
+				.onClick(() => this.formatSection(editor, info.file)));
+		}));
+
+		// Format on save: run before Obsidian's own save command
+		this.hookSaveCommand();
+
+		// Format as you type (checks settings.formatOnType itself, so toggling needs no reload)
+		this.registerEditorExtension(createFormatOnTypeExtension(this));
+
+		// Track edited lines, so format on save only processes what changed
+		this.registerEditorExtension(createDirtyLinesExtension());
+
+		// Lint mode underlines and the zero-width space markers
+		this.registerEditorExtension(this.optionalExtensions);
+		this.updateOptionalExtensions();
+
+		// Side panel with the issues of the active note
+		this.registerView(ISSUES_VIEW_TYPE, leaf => new SpacingIssuesView(leaf, this));
+
 		// Add settings tab
 		this.addSettingTab(new SmartSpacingSettingTab(this.app, this));
 
@@ -63,31 +377,348 @@ export default class SmartSpacingPlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, (await this.loadData()) as unknown);
+		this.updateLanguage();
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.updateLanguage();
+		// Any rule may change the issue count
+		this.statusBar.refresh();
 	}
 
 	/**
-	 * Format the editor content
+	 * Use the language from the settings, or Obsidian's language (its moment locale) for 'auto'
 	 */
-	formatEditor(editor: Editor, showNotice: boolean): void {
+	private updateLanguage(): void {
+		const { language } = this.settings;
+		setLanguage(language === 'auto' ? detectLanguage(moment.locale()) : language);
+	}
+
+	/**
+	 * Add or remove the extensions that depend on settings in every open editor
+	 */
+	updateOptionalExtensions(): void {
+		this.optionalExtensions.length = 0;
+		if (this.settings.lintMode) {
+			this.optionalExtensions.push(createLintExtension(this));
+		}
+		if (this.settings.showZeroWidthSpaces) {
+			this.optionalExtensions.push(createZeroWidthSpaceExtension());
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	/**
+	 * Pause or resume format on save and as you type until Obsidian restarts
+	 */
+	toggleAutoFormat(): void {
+		this.autoFormatPaused = !this.autoFormatPaused;
+		this.updateAutoFormatRibbon();
+		this.statusBar.refresh();
+		new Notice(t(this.autoFormatPaused ? 'notice.paused' : 'notice.resumed'));
+	}
+
+	private updateAutoFormatRibbon(): void {
+		setIcon(this.autoFormatRibbonEl, this.autoFormatPaused ? 'pause' : 'wand-2');
+		this.autoFormatRibbonEl.setAttribute('aria-label', t(this.autoFormatPaused ? 'ribbon.resume' : 'ribbon.pause'));
+	}
+
+	/**
+	 * Reveal the issues panel, opening it in the right sidebar if needed
+	 */
+	async activateIssuesView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(ISSUES_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({ type: ISSUES_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Wrap the built-in "Save current file" command so the active note is formatted first.
+	 * The original callback is restored when the plugin unloads.
+	 */
+	private hookSaveCommand(): void {
+		const registry = (this.app as unknown as { commands?: CommandRegistry }).commands;
+		const saveCommand = registry?.commands['editor:save-file'];
+		const originalCallback = saveCommand?.checkCallback;
+		if (!saveCommand || !originalCallback) {
+			console.warn('Smart Spacing: save command not found, format on save is unavailable');
+			return;
+		}
+
+		saveCommand.checkCallback = (checking: boolean) => {
+			if (!checking && this.settings.formatOnSave && !this.autoFormatPaused) {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (view?.file && !this.isAutoFormatDisabled(view.file)) {
+					this.formatChangedLines(view.editor, view.file);
+				}
+			}
+			return originalCallback.call(saveCommand, checking) as boolean | void;
+		};
+		this.register(() => {
+			saveCommand.checkCallback = originalCallback;
+		});
+	}
+
+	/**
+	 * Whether a note opted out of automatic formatting via frontmatter (smart-spacing: false)
+	 */
+	isAutoFormatDisabled(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return frontmatter?.[FRONTMATTER_KEY] === false;
+	}
+
+	/**
+	 * Settings for a note: the global settings, overridden by its profile and frontmatter
+	 */
+	resolveNoteSettings(file: TFile | null): ResolvedSettings {
+		if (!file) return { settings: this.settings, profile: null, hasNoteOverrides: false };
+		const cache = this.app.metadataCache.getFileCache(file);
+		return resolveSettings(this.settings, this.settings.profiles, this.settings.profileRules, {
+			path: file.path,
+			tags: (cache && getAllTags(cache)) ?? [],
+			frontmatter: cache?.frontmatter?.[FRONTMATTER_KEY],
+		});
+	}
+
+	getNoteSettings(file: TFile | null): SmartSpacingSettings {
+		return this.resolveNoteSettings(file).settings;
+	}
+
+	/**
+	 * Whether Linter is installed and enabled, and whether one of the full-note
+	 * commands is among its custom commands
+	 */
+	getLinterStatus(): LinterStatus {
+		const registry = (this.app as unknown as { plugins?: PluginRegistry }).plugins;
+		if (!registry?.manifests[LINTER_PLUGIN_ID]) return 'missing';
+		if (!registry.enabledPlugins.has(LINTER_PLUGIN_ID)) return 'disabled';
+		const commandIds = LINTER_COMMAND_IDS.map(id => `${this.manifest.id}:${id}`);
+		const lintCommands = registry.plugins[LINTER_PLUGIN_ID]?.settings?.lintCommands ?? [];
+		return lintCommands.some(command => command.id && commandIds.includes(command.id)) ? 'configured' : 'not-configured';
+	}
+
+	/**
+	 * Format a single line of the editor, keeping the cursor on the same character
+	 */
+	formatLine(editor: Editor, line: number, file: TFile | null): void {
+		if (line >= editor.lineCount()) return;
+		const from = editor.posToOffset({ line, ch: 0 });
+		this.formatRanges(editor, [{ from, to: from + editor.getLine(line).length }], false, file);
+	}
+
+	/**
+	 * Format the selected text of every selection
+	 */
+	formatSelections(editor: Editor, file: TFile | null): void {
+		const ranges = editor.listSelections().map(selection => {
+			const anchor = editor.posToOffset(selection.anchor);
+			const head = editor.posToOffset(selection.head);
+			return { from: Math.min(anchor, head), to: Math.max(anchor, head) };
+		});
+		this.formatRanges(editor, ranges, true, file);
+	}
+
+	/**
+	 * Format the paragraph under the cursor
+	 */
+	formatParagraph(editor: Editor, file: TFile | null): void {
+		const range = getParagraphRange(editor.getValue(), editor.getCursor().line, this.getNoteSettings(file));
+		this.formatRanges(editor, [range], true, file);
+	}
+
+	/**
+	 * Format the heading section under the cursor
+	 */
+	formatSection(editor: Editor, file: TFile | null): void {
+		const range = getSectionRange(editor.getValue(), editor.getCursor().line, this.getNoteSettings(file));
+		this.formatRanges(editor, [range], true, file);
+	}
+
+	/**
+	 * Format only the given ranges of the editor.
+	 * The whole note is still tokenized, so code block and $$ state is carried into
+	 * the ranges, but only the paragraphs they touch are processed; only the edits
+	 * that fall inside the ranges are applied.
+	 */
+	formatRanges(editor: Editor, ranges: TextRange[], showNotice: boolean, file: TFile | null): void {
+		const resolved = this.resolveNoteSettings(file);
 		const content = editor.getValue();
-		// Use the extracted processor
-		const newContent = processText(content, this.settings);
+		const lines = ranges.map(range => ({
+			from: offsetToPosition(content, range.from).line,
+			to: offsetToPosition(content, range.to).line,
+		}));
+		const edits = computeEdits(content, processLines(content, resolved.settings, lines))
+			.filter(edit => ranges.some(range => edit.from >= range.from && edit.to <= range.to));
+		this.commitEdits(editor, content, edits, showNotice, resolved, file);
+		if (showNotice) {
+			this.warnEmphasisProblems(content, resolved.settings, ranges);
+		}
+	}
+
+	/**
+	 * Tell the user about emphasis markers that were skipped because they are unmatched
+	 * or cross each other, so the source can be fixed by hand
+	 */
+	private warnEmphasisProblems(content: string, settings: SmartSpacingSettings, ranges?: TextRange[]): void {
+		const problems = findEmphasisProblems(content, settings)
+			.filter(problem => !ranges || ranges.some(range => problem.from < range.to && problem.to > range.from));
+		if (problems.length === 0) return;
+
+		const lines = [...new Set(problems.map(problem => offsetToPosition(content, problem.from).line + 1))];
+		new Notice(t('notice.emphasisProblems', { count: problems.length, lines: lines.join(', ') }));
+	}
+
+	/**
+	 * Apply the edits of a format. Interactive formats (showNotice) go through the diff
+	 * preview first when it is enabled; automatic ones are always applied directly.
+	 */
+	private commitEdits(
+		editor: Editor,
+		content: string,
+		edits: TextEdit[],
+		showNotice: boolean,
+		resolved: ResolvedSettings,
+		file: TFile | null,
+	): void {
+		const profileLabel = getProfileLabel(resolved);
+		if (edits.length === 0) {
+			if (showNotice) new Notice(t('notice.noChanges', { profile: profileLabel }));
+			return;
+		}
+
+		if (!showNotice || !this.settings.previewChanges) {
+			if (this.applyEdits(editor, content, edits, file) && showNotice) new Notice(t('notice.fixed', { profile: profileLabel }));
+			return;
+		}
 
-		if (content !== newContent) {
-			const cursor = editor.getCursor();
-			editor.setValue(newContent);
-			editor.setCursor(cursor);
-			if (showNotice) {
-				new Notice('Smart spacing fixed');
+		new DiffPreviewModal(this.app, content, edits, accepted => {
+			// Offsets refer to the previewed content, so they can't be applied to an edited note
+			if (editor.getValue() !== content) {
+				new Notice(t('notice.changedDuringPreview'));
+				return;
 			}
-		} else if (showNotice) {
-			new Notice('Smart spacing: no changes needed.');
+			if (this.applyEdits(editor, content, accepted, file)) new Notice(t('notice.fixed', { profile: profileLabel }));
+		}).open();
+	}
+
+	/**
+	 * Apply edits as a single editor transaction, so a format is one undo step and
+	 * folds, scroll position and all selections are kept (mapped through the edits).
+	 * Nothing is written when the edits would change more than spacing; otherwise the
+	 * note's content is kept as a snapshot first. Returns whether anything was applied.
+	 */
+	applyEdits(editor: Editor, content: string, edits: TextEdit[], file: TFile | null): boolean {
+		if (edits.length === 0) return false;
+
+		const parts: string[] = [];
+		let last = 0;
+		for (const edit of edits) {
+			parts.push(content.slice(last, edit.from), edit.insert);
+			last = edit.to;
+		}
+		parts.push(content.slice(last));
+		const newContent = parts.join('');
+
+		const problem = findIntegrityProblem(content, newContent);
+		if (problem) {
+			new Notice(t('notice.integrity', { problem: translateIntegrityProblem(problem) }), 0);
+			return false;
+		}
+		if (file) void this.snapshots.save(file.path, content);
+
+		const mapPosition = (pos: EditorPosition) =>
+			offsetToPosition(newContent, mapOffset(edits, editor.posToOffset(pos)));
+
+		editor.transaction({
+			changes: edits.map(edit => ({
+				from: editor.offsetToPos(edit.from),
+				to: editor.offsetToPos(edit.to),
+				text: edit.insert,
+			})),
+			selections: editor.listSelections().map(selection => ({
+				from: mapPosition(selection.anchor),
+				to: mapPosition(selection.head),
+			})),
+		});
+		return true;
+	}
+
+	/**
+	 * Remove or convert the zero-width spaces next to markers in the editor
+	 */
+	convertZeroWidthSpaces(editor: Editor, conversion: ZeroWidthConversion, file: TFile | null): void {
+		const content = editor.getValue();
+		const edits = computeEdits(content, convertZeroWidthSpaces(content, conversion, this.getNoteSettings(file)));
+		if (edits.length === 0) {
+			new Notice(t('notice.noZeroWidthSpaces'));
+		} else if (this.applyEdits(editor, content, edits, file)) {
+			new Notice(t('notice.zeroWidthSpacesConverted'));
 		}
 	}
+
+	/**
+	 * Format on save: only the lines edited since the last save are processed when they
+	 * are known; after a settings change or a first save the whole note is formatted
+	 */
+	formatChangedLines(editor: Editor, file: TFile): void {
+		const resolved = this.resolveNoteSettings(file);
+		const settingsKey = JSON.stringify(resolved.settings);
+		const lines = getDirtyLines(editor, settingsKey);
+		if (lines?.length === 0) return;
+
+		const content = editor.getValue();
+		const newContent = lines ? processLines(content, resolved.settings, lines) : processText(content, resolved.settings);
+		if (newContent !== content && !this.applyEdits(editor, content, computeEdits(content, newContent), file)) return;
+		markClean(editor, settingsKey);
+	}
+
+	/**
+	 * Let the user pick a snapshot of the note and put it back in the editor. The current
+	 * content becomes a snapshot itself, so a restore can be undone the same way.
+	 */
+	async restoreSnapshot(editor: Editor, file: TFile): Promise<void> {
+		const snapshots = await this.snapshots.list(file.path);
+		if (snapshots.length === 0) {
+			new Notice(t('notice.noSnapshots'));
+			return;
+		}
+		new SnapshotSuggestModal(this.app, snapshots, snapshot => {
+			void this.snapshots.save(file.path, editor.getValue(), true);
+			editor.setValue(snapshot.content);
+			new Notice(t('notice.restored', { time: new Date(snapshot.time).toLocaleString() }));
+		}).open();
+	}
+
+	/**
+	 * Format the editor content
+	 */
+	formatEditor(editor: Editor, showNotice: boolean, file: TFile | null): void {
+		const resolved = this.resolveNoteSettings(file);
+		const content = editor.getValue();
+		// Use the extracted processor
+		const newContent = processText(content, resolved.settings);
+		this.commitEdits(editor, content, content === newContent ? [] : computeEdits(content, newContent), showNotice, resolved, file);
+		if (showNotice) {
+			this.warnEmphasisProblems(content, resolved.settings);
+		}
+	}
+}
+
+/**
+ * Describe where a note's settings come from, e.g. " (profile: japanese)", for notices
+ */
+function getProfileLabel(resolved: ResolvedSettings): string {
+	const parts: string[] = [];
+	if (resolved.profile) parts.push(t('notice.profile', { name: resolved.profile }));
+	if (resolved.hasNoteOverrides) parts.push(t('notice.noteOverrides'));
+	return parts.length > 0 ? ` (${parts.join(', ')})` : '';
 }
 
 // ============================================================================
@@ -110,17 +741,31 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 			.setHeading();
 
 		containerEl.createEl('p', {
-			text: '💡 此插件专注于处理加粗/斜体的空格问题，建议配合 linter 插件使用。',
+			text: t('settings.intro'),
 			cls: 'setting-item-description'
 		});
 
 		new Setting(containerEl)
-			.setName('核心功能')
+			.setName(t('settings.language'))
+			.setDesc(t('settings.language.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', t('settings.language.auto'))
+				.addOptions(LANGUAGE_OPTIONS)
+				.setValue(this.plugin.settings.language)
+				.onChange(async (value) => {
+					this.plugin.settings.language = value as LanguageSetting;
+					await this.plugin.saveSettings();
+					// Show the settings in the new language
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.core'))
 			.setHeading();
 
 		new Setting(containerEl)
-			.setName('🧹 清理加粗/斜体内部空格')
-			.setDesc('修复 ** 文本 ** → **文本**，* 文本 * → *文本*')
+			.setName(`🧹 ${t('setting.removeInternalBoldSpaces')}`)
+			.setDesc(t('setting.removeInternalBoldSpaces.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.removeInternalBoldSpaces)
 				.onChange(async (value) => {
@@ -129,8 +774,8 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('中文与加粗之间添加空格')
-			.setDesc('中文**加粗** → 中文 **加粗**')
+			.setName(t('setting.spaceBetweenChineseAndBold'))
+			.setDesc(t('setting.spaceBetweenChineseAndBold.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.spaceBetweenChineseAndBold)
 				.onChange(async (value) => {
@@ -139,8 +784,8 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('英文与加粗之间添加空格')
-			.setDesc('Word**bold** → word **bold**（通常不需要）')
+			.setName(t('setting.spaceBetweenEnglishAndBold'))
+			.setDesc(t('setting.spaceBetweenEnglishAndBold.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.spaceBetweenEnglishAndBold)
 				.onChange(async (value) => {
@@ -149,8 +794,8 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('中文与斜体之间添加空格')
-			.setDesc('中文*斜体* → 中文 *斜体*')
+			.setName(t('setting.spaceBetweenChineseAndItalic'))
+			.setDesc(t('setting.spaceBetweenChineseAndItalic.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.spaceBetweenChineseAndItalic)
 				.onChange(async (value) => {
@@ -158,10 +803,39 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		const zeroWidthSpaceDesc = '使用零宽空格 (\\u200B) 代替普通空格，视觉上无间隙但仍能正确渲染';
 		new Setting(containerEl)
-			.setName('使用零宽空格')
-			.setDesc(zeroWidthSpaceDesc)
+			.setName(t('setting.spaceBetweenChineseAndStrikethrough'))
+			.setDesc(t('setting.spaceBetweenChineseAndStrikethrough.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spaceBetweenChineseAndStrikethrough)
+				.onChange(async (value) => {
+					this.plugin.settings.spaceBetweenChineseAndStrikethrough = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.spaceBetweenChineseAndHighlight'))
+			.setDesc(t('setting.spaceBetweenChineseAndHighlight.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spaceBetweenChineseAndHighlight)
+				.onChange(async (value) => {
+					this.plugin.settings.spaceBetweenChineseAndHighlight = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.spaceBetweenChineseAndInlineCode'))
+			.setDesc(t('setting.spaceBetweenChineseAndInlineCode.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spaceBetweenChineseAndInlineCode)
+				.onChange(async (value) => {
+					this.plugin.settings.spaceBetweenChineseAndInlineCode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.useZeroWidthSpace'))
+			.setDesc(t('setting.useZeroWidthSpace.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.useZeroWidthSpace)
 				.onChange(async (value) => {
@@ -170,12 +844,108 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('保护规则')
+			.setName(t('setting.showZeroWidthSpaces'))
+			.setDesc(t('setting.showZeroWidthSpaces.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showZeroWidthSpaces)
+				.onChange(async (value) => {
+					this.plugin.settings.showZeroWidthSpaces = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateOptionalExtensions();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.previewChanges'))
+			.setDesc(t('setting.previewChanges.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewChanges)
+				.onChange(async (value) => {
+					this.plugin.settings.previewChanges = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.lintMode'))
+			.setDesc(t('setting.lintMode.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.lintMode)
+				.onChange(async (value) => {
+					this.plugin.settings.lintMode = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateOptionalExtensions();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.scripts'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('settings.scripts.desc'),
+			cls: 'setting-item-description'
+		});
+
+		for (const option of CJK_SCRIPT_OPTIONS) {
+			new Setting(containerEl)
+				.setName(t(option.name))
+				.setDesc(t(option.desc))
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.cjkScripts.includes(option.script))
+					.onChange(async (value) => {
+						// Build a new array so the defaults are never mutated
+						const scripts = this.plugin.settings.cjkScripts.filter(script => script !== option.script);
+						this.plugin.settings.cjkScripts = value ? [...scripts, option.script] : scripts;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.mixed'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('settings.mixed.desc'),
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName(t('setting.spaceBetweenChineseAndEnglish'))
+			.setDesc(t('setting.spaceBetweenChineseAndEnglish.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spaceBetweenChineseAndEnglish)
+				.onChange(async (value) => {
+					this.plugin.settings.spaceBetweenChineseAndEnglish = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.spaceBetweenChineseAndNumber'))
+			.setDesc(t('setting.spaceBetweenChineseAndNumber.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.spaceBetweenChineseAndNumber)
+				.onChange(async (value) => {
+					this.plugin.settings.spaceBetweenChineseAndNumber = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.normalizePunctuationSpacing'))
+			.setDesc(t('setting.normalizePunctuationSpacing.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.normalizePunctuationSpacing)
+				.onChange(async (value) => {
+					this.plugin.settings.normalizePunctuationSpacing = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayCustomRules(containerEl);
+
+		new Setting(containerEl)
+			.setName(t('settings.protection'))
 			.setHeading();
 
 		new Setting(containerEl)
-			.setName('跳过代码块')
-			.setDesc('不修改 ``` 代码块内的内容')
+			.setName(t('setting.skipCodeBlocks'))
+			.setDesc(t('setting.skipCodeBlocks.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.skipCodeBlocks)
 				.onChange(async (value) => {
@@ -184,8 +954,8 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('跳过行内代码')
-			.setDesc('不修改 `code` 内的内容')
+			.setName(t('setting.skipInlineCode'))
+			.setDesc(t('setting.skipInlineCode.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.skipInlineCode)
 				.onChange(async (value) => {
@@ -193,41 +963,443 @@ class SmartSpacingSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName(t('setting.skipFrontmatter'))
+			.setDesc(t('setting.skipFrontmatter.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.skipFrontmatter = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipComments'))
+			.setDesc(t('setting.skipComments.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipComments)
+				.onChange(async (value) => {
+					this.plugin.settings.skipComments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipWikilinks'))
+			.setDesc(t('setting.skipWikilinks.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipWikilinks)
+				.onChange(async (value) => {
+					this.plugin.settings.skipWikilinks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipTags'))
+			.setDesc(t('setting.skipTags.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipTags)
+				.onChange(async (value) => {
+					this.plugin.settings.skipTags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipHtml'))
+			.setDesc(t('setting.skipHtml.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipHtml)
+				.onChange(async (value) => {
+					this.plugin.settings.skipHtml = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipLinkUrls'))
+			.setDesc(t('setting.skipLinkUrls.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipLinkUrls)
+				.onChange(async (value) => {
+					this.plugin.settings.skipLinkUrls = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipFootnotes'))
+			.setDesc(t('setting.skipFootnotes.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipFootnotes)
+				.onChange(async (value) => {
+					this.plugin.settings.skipFootnotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.skipBlockIds'))
+			.setDesc(t('setting.skipBlockIds.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipBlockIds)
+				.onChange(async (value) => {
+					this.plugin.settings.skipBlockIds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.autoFormat'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('settings.autoFormat.desc'),
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName(t('setting.formatOnSave'))
+			.setDesc(t('setting.formatOnSave.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.formatOnSave)
+				.onChange(async (value) => {
+					this.plugin.settings.formatOnSave = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.formatOnType'))
+			.setDesc(t('setting.formatOnType.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.formatOnType)
+				.onChange(async (value) => {
+					this.plugin.settings.formatOnType = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.formatOnTypeDelay'))
+			.setDesc(t('setting.formatOnTypeDelay.desc'))
+			.addSlider(slider => slider
+				.setLimits(100, 2000, 100)
+				.setValue(this.plugin.settings.formatOnTypeDelay)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.formatOnTypeDelay = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.statusBar'))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t('setting.showStatusBar'))
+			.setDesc(t('setting.showStatusBar.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showStatusBar)
+				.onChange(async (value) => {
+					this.plugin.settings.showStatusBar = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.statusBarAction'))
+			.addDropdown(dropdown => dropdown
+				.addOptions(translateOptions(STATUS_BAR_ACTION_OPTIONS))
+				.setValue(this.plugin.settings.statusBarAction)
+				.onChange(async (value) => {
+					this.plugin.settings.statusBarAction = value as StatusBarAction;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.batch'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('settings.batch.desc'),
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName(t('setting.batchInclude'))
+			.setDesc(t('setting.batchInclude.desc'))
+			.addTextArea(text => text
+				.setValue(this.plugin.settings.batchInclude.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.batchInclude = parseGlobList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('setting.batchExclude'))
+			.setDesc(t('setting.batchExclude.desc'))
+			.addTextArea(text => text
+				.setValue(this.plugin.settings.batchExclude.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.batchExclude = parseGlobList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.snapshots'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('settings.snapshots.desc'),
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName(t('setting.snapshotLimit'))
+			.setDesc(t('setting.snapshotLimit.desc'))
+			.addSlider(slider => slider
+				.setLimits(0, 50, 1)
+				.setValue(this.plugin.settings.snapshotLimit)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.snapshotLimit = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayProfiles(containerEl);
+
 		// Linter integration guide
 		new Setting(containerEl)
-			.setName('📋 配合 linter 使用')
+			.setName(t('linter.heading'))
 			.setHeading();
 
+		new Setting(containerEl)
+			.setName(t('linter.status'))
+			.setDesc(t(LINTER_STATUS_TEXT[this.plugin.getLinterStatus()]))
+			.addButton(button => button
+				.setButtonText(t('linter.recheck'))
+				.onClick(() => this.display()));
+
 		const guideEl = containerEl.createEl('div', { cls: 'setting-item-description' });
 
 		// Create paragraphs and lists using DOM API
 		const p1 = guideEl.createEl('p');
-		p1.textContent = '在 linter 设置中添加 custom command：';
+		p1.textContent = t('linter.guide.intro');
 
 		const ol = guideEl.createEl('ol');
 		const li1 = ol.createEl('li');
-		li1.textContent = '打开 linter 设置 → custom commands';
+		li1.textContent = t('linter.guide.open');
 		const li2 = ol.createEl('li');
-		li2.appendText('添加命令：');
+		li2.appendText(t('linter.guide.add'));
 		const code = li2.createEl('code');
 		code.textContent = 'Smart spacing for chinese: fix all spacing';
 		const li3 = ol.createEl('li');
-		li3.textContent = 'Linter 会在格式化时自动调用本插件';
+		li3.textContent = t('linter.guide.result');
 
 		const p2 = guideEl.createEl('p');
 		const strong1 = p2.createEl('strong');
-		strong1.textContent = '分工说明：';
+		strong1.textContent = t('linter.guide.roles');
 
 		const ul = guideEl.createEl('ul');
 		const li4 = ul.createEl('li');
 		li4.appendText('✅ ');
 		const strong2 = li4.createEl('strong');
-		strong2.textContent = '本插件负责';
-		li4.appendText('：加粗/斜体的空格处理（状态机算法，不会出错）');
+		strong2.textContent = t('linter.guide.plugin');
+		li4.appendText(t('linter.guide.plugin.role'));
 		const li5 = ul.createEl('li');
 		li5.appendText('✅ ');
 		const strong3 = li5.createEl('strong');
-		strong3.textContent = 'Linter 负责';
-		li5.appendText('：中英文空格、中数字空格、其他格式化');
+		strong3.textContent = t('linter.guide.linter');
+		li5.appendText(t('linter.guide.linter.role'));
+	}
+
+	/**
+	 * Custom rules: per delimiter, which neighbouring characters get a space
+	 */
+	private displayCustomRules(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+
+		new Setting(containerEl)
+			.setName(t('customRules.heading'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('customRules.desc'),
+			cls: 'setting-item-description'
+		});
+
+		settings.customRules.forEach((rule, index) => {
+			const setting = new Setting(containerEl)
+				.addDropdown(dropdown => dropdown
+					.addOptions(translateOptions(DELIMITER_OPTIONS))
+					.setValue(rule.delimiter)
+					.onChange(async (value) => {
+						rule.delimiter = value as DelimiterType;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOptions(translateOptions(CHARACTER_CLASS_OPTIONS))
+					.setValue(rule.charClass)
+					.onChange(async (value) => {
+						rule.charClass = value as CharacterClass;
+						await this.plugin.saveSettings();
+						// Show or hide the pattern field
+						this.display();
+					}));
+
+			if (rule.charClass === 'custom') {
+				setting.addText(text => text
+					.setPlaceholder('[α-ω]')
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value;
+						setting.setDesc(isValidPattern(value) ? '' : t('customRules.invalidPattern'));
+						await this.plugin.saveSettings();
+					}));
+				if (!isValidPattern(rule.pattern)) {
+					setting.setDesc(t('customRules.invalidPattern'));
+				}
+			}
+
+			setting
+				.addDropdown(dropdown => dropdown
+					.addOptions(translateOptions(SPACING_ACTION_OPTIONS))
+					.setValue(rule.action)
+					.onChange(async (value) => {
+						rule.action = value as SpacingAction;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip(t('customRules.moveUp'))
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						const rules = [...settings.customRules];
+						[rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+						settings.customRules = rules;
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('delete'))
+					.onClick(async () => {
+						settings.customRules = settings.customRules.filter(r => r !== rule);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('customRules.add'))
+				.onClick(async () => {
+					const rule: CustomSpacingRule = { delimiter: 'bold', charClass: 'latin', pattern: '', action: 'space' };
+					settings.customRules = [...settings.customRules, rule];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Profiles and the folder/tag rules that pick them
+	 */
+	private displayProfiles(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+
+		new Setting(containerEl)
+			.setName(t('profiles.heading'))
+			.setHeading();
+
+		containerEl.createEl('p', {
+			text: t('profiles.desc'),
+			cls: 'setting-item-description'
+		});
+
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile) {
+			const resolved = this.plugin.resolveNoteSettings(activeFile);
+			containerEl.createEl('p', {
+				text: t('profiles.activeNote', {
+					note: activeFile.basename,
+					profile: `${resolved.profile ?? t('profiles.global')}${resolved.hasNoteOverrides ? t('profiles.noteOverrides') : ''}`,
+				}),
+				cls: 'setting-item-description'
+			});
+		}
+
+		for (const profile of settings.profiles) {
+			new Setting(containerEl)
+				.setDesc(tCount('profiles.overrides', Object.keys(profile.overrides).length))
+				.addText(text => text
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						// Keep the rules pointing at the renamed profile
+						for (const rule of settings.profileRules) {
+							if (rule.profile === profile.name) rule.profile = value;
+						}
+						profile.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip(t('profiles.edit'))
+					.onClick(() => {
+						new ProfileModal(this.app, profile, async () => {
+							await this.plugin.saveSettings();
+						}).open();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('delete'))
+					.onClick(async () => {
+						settings.profiles = settings.profiles.filter(p => p !== profile);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('profiles.add'))
+				.onClick(async () => {
+					settings.profiles = [...settings.profiles, { name: t('profiles.defaultName', { number: settings.profiles.length + 1 }), overrides: {} }];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('profiles.rules'))
+			.setDesc(t('profiles.rules.desc'))
+			.addButton(button => button
+				.setButtonText(t('profiles.addRule'))
+				.setDisabled(settings.profiles.length === 0)
+				.onClick(async () => {
+					settings.profileRules = [...settings.profileRules, { match: '', profile: settings.profiles[0].name }];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		for (const rule of settings.profileRules) {
+			new Setting(containerEl)
+				.addText(text => text
+					.setValue(rule.match)
+					.onChange(async (value) => {
+						rule.match = value;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					for (const profile of settings.profiles) {
+						dropdown.addOption(profile.name, profile.name);
+					}
+					dropdown
+						.setValue(rule.profile)
+						.onChange(async (value) => {
+							rule.profile = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('delete'))
+					.onClick(async () => {
+						settings.profileRules = settings.profileRules.filter(r => r !== rule);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
 	}
 }
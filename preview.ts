@@ -0,0 +1,120 @@
+/**
+ * Diff preview shown before a manual format is applied
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { TextEdit } from './diff';
+import { t, tCount } from './i18n';
+
+/**
+ * Edits touching the same or adjacent lines, accepted or rejected together
+ */
+export interface DiffHunk {
+	edits: TextEdit[];
+	// Offsets of the full lines covered by the edits
+	from: number;
+	to: number;
+}
+
+/**
+ * Group edits into hunks of whole lines. Edits on the same line always share a hunk.
+ */
+export function groupHunks(content: string, edits: TextEdit[]): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	for (const edit of edits) {
+		const from = content.lastIndexOf('\n', edit.from - 1) + 1;
+		const lineEnd = content.indexOf('\n', edit.to);
+		const to = lineEnd === -1 ? content.length : lineEnd;
+		const last = hunks[hunks.length - 1];
+		if (last && from <= last.to) {
+			last.edits.push(edit);
+			last.to = Math.max(last.to, to);
+		} else {
+			hunks.push({ edits: [edit], from, to });
+		}
+	}
+	return hunks;
+}
+
+/**
+ * Modal listing every changed line as an inline diff: inserted spaces are highlighted,
+ * removed spaces are struck through. onApply receives the edits of the accepted hunks.
+ */
+export class DiffPreviewModal extends Modal {
+	private readonly hunks: DiffHunk[];
+	private readonly accepted: boolean[];
+
+	constructor(
+		app: App,
+		private readonly content: string,
+		edits: TextEdit[],
+		private readonly onApply: (edits: TextEdit[]) => void,
+	) {
+		super(app);
+		this.hunks = groupHunks(content, edits);
+		this.accepted = this.hunks.map(() => true);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(t('preview.title'));
+		contentEl.createEl('p', {
+			text: tCount('preview.summary', this.hunks.length),
+			cls: 'setting-item-description',
+		});
+
+		const listEl = contentEl.createDiv({ cls: 'smart-spacing-diff' });
+		this.hunks.forEach((hunk, index) => {
+			const hunkEl = listEl.createDiv({ cls: 'smart-spacing-diff-hunk' });
+			const checkbox = hunkEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.accepted[index];
+			checkbox.addEventListener('change', () => {
+				this.accepted[index] = checkbox.checked;
+			});
+			this.renderHunk(hunkEl.createEl('pre', { cls: 'smart-spacing-diff-text' }), hunk);
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('preview.reject'))
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(t('preview.applySelected'))
+				.onClick(() => this.apply(this.hunks.filter((_hunk, index) => this.accepted[index]))))
+			.addButton(button => button
+				.setButtonText(t('preview.accept'))
+				.setCta()
+				.onClick(() => this.apply(this.hunks)));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private apply(hunks: DiffHunk[]): void {
+		this.close();
+		this.onApply(hunks.flatMap(hunk => hunk.edits));
+	}
+
+	private renderHunk(el: HTMLElement, hunk: DiffHunk): void {
+		let last = hunk.from;
+		for (const edit of hunk.edits) {
+			el.appendText(this.content.slice(last, edit.from));
+			if (edit.to > edit.from) {
+				el.createEl('del', { text: showWhitespace(this.content.slice(edit.from, edit.to)) });
+			}
+			if (edit.insert) {
+				el.createEl('ins', { text: showWhitespace(edit.insert) });
+			}
+			last = edit.to;
+		}
+		el.appendText(this.content.slice(last, hunk.to));
+	}
+}
+
+/**
+ * Make changed whitespace visible: spaces become '·' and zero-width spaces '∘'
+ */
+function showWhitespace(text: string): string {
+	return text.replace(/ /g, '·').replace(/\u200B/g, '∘');
+}
@@ -2,6 +2,11 @@
  * Core text processing logic for Smart Spacing Plugin
  */
 
+import { ALL_CJK_SCRIPTS, CjkScript, charAt, charBefore, displayWidth, isCjk, isFullwidthPunctuation } from './cjk';
+import { CustomSpacingRule, DelimiterType, SPACING_ACTION_TEXT, findCustomRule, hasCustomRules } from './customrules';
+import { toLfLineEndings, withLfLineEndings } from './lineendings';
+import { Block, InlineToken, countRun, tokenize } from './tokenizer';
+
 /**
  * Settings interface for the text processor
  */
@@ -10,344 +15,925 @@ export interface SmartSpacingSettings {
 	spaceBetweenChineseAndBold: boolean;
 	spaceBetweenEnglishAndBold: boolean;
 	spaceBetweenChineseAndItalic: boolean;
+	spaceBetweenChineseAndStrikethrough: boolean;
+	spaceBetweenChineseAndHighlight: boolean;
+	spaceBetweenChineseAndInlineCode: boolean;
+	spaceBetweenChineseAndEnglish: boolean;
+	spaceBetweenChineseAndNumber: boolean;
+	normalizePunctuationSpacing: boolean;
 	skipCodeBlocks: boolean;
 	skipInlineCode: boolean;
+	skipFrontmatter: boolean;
+	skipComments: boolean;
+	skipWikilinks: boolean;
+	skipTags: boolean;
+	skipHtml: boolean;
+	skipLinkUrls: boolean;
+	skipFootnotes: boolean;
+	skipBlockIds: boolean;
 	useZeroWidthSpace: boolean;
+	cjkScripts: CjkScript[];
+	// Checked before the built-in toggles above
+	customRules: CustomSpacingRule[];
+}
+
+/**
+ * Default rules, shared by the plugin and the command line tool
+ */
+export const DEFAULT_SPACING_SETTINGS: SmartSpacingSettings = {
+	removeInternalBoldSpaces: true,
+	spaceBetweenChineseAndBold: true,
+	spaceBetweenEnglishAndBold: false,
+	spaceBetweenChineseAndItalic: true,
+	spaceBetweenChineseAndStrikethrough: true,
+	spaceBetweenChineseAndHighlight: true,
+	spaceBetweenChineseAndInlineCode: true,
+	spaceBetweenChineseAndEnglish: false,
+	spaceBetweenChineseAndNumber: false,
+	normalizePunctuationSpacing: false,
+	skipCodeBlocks: true,
+	skipInlineCode: true,
+	skipFrontmatter: true,
+	skipComments: true,
+	skipWikilinks: true,
+	skipTags: true,
+	skipHtml: true,
+	skipLinkUrls: true,
+	skipFootnotes: true,
+	skipBlockIds: true,
+	useZeroWidthSpace: false,
+	cjkScripts: [...ALL_CJK_SCRIPTS],
+	customRules: [],
+};
+
+type EmphasisChar = '*' | '_';
+
+/**
+ * A run of identical delimiter characters, e.g. "**", "___" or "~~"
+ */
+interface DelimiterRun<C extends string = EmphasisChar> {
+	char: C;
+	length: number;
+	isDelimiter: boolean;
+}
+
+/**
+ * An emphasis delimiter run that was left untouched because it can't be paired safely.
+ * Offsets point at the delimiter run itself.
+ */
+export interface EmphasisProblem {
+	type: 'unmatched-emphasis' | 'crossing-emphasis';
+	delimiter: string;
+	from: number;
+	to: number;
+}
+
+/**
+ * How the delimiters of a run pair up
+ */
+interface EmphasisAnalysis {
+	problems: EmphasisProblem[];
+	// Pairs the fixers may edit
+	pairs: DelimiterPair[];
+}
+
+/**
+ * Matching opening and closing delimiter runs, by offset
+ */
+interface DelimiterPair {
+	delimiter: string;
+	open: number;
+	close: number;
+}
+
+/**
+ * A line of inline tokens flattened into one string, so the state machines can look
+ * across token boundaries while only ever editing editable tokens
+ */
+interface FlatRun {
+	tokens: InlineToken[];
+	text: string;
+	// Token index of every UTF-16 code unit of 'text'
+	owners: number[];
+	// End offset (exclusive) of every token in 'text'
+	ends: number[];
+	editable: boolean[];
+}
+
+/**
+ * A range of lines, zero-based and inclusive
+ */
+export interface LineRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * A position in the output of a RunWriter
+ */
+interface WriterMark {
+	token: number;
+	length: number;
 }
 
 /**
- * Represents a protected section of text that should not be modified
+ * Identifier of a spacing rule, as reported by the linter
  */
-interface ProtectedSection {
-	placeholder: string;
-	original: string;
+export type SpacingRule =
+	| 'internal-bold-space'
+	| 'cjk-bold-boundary'
+	| 'cjk-italic-boundary'
+	| 'cjk-strikethrough-boundary'
+	| 'cjk-highlight-boundary'
+	| 'cjk-latin-spacing'
+	| 'punctuation-spacing'
+	| 'cjk-inline-code-boundary';
+
+/**
+ * One fixer of the pipeline, run on every paragraph when its settings enable it
+ */
+interface SpacingStep {
+	rule: SpacingRule;
+	isEnabled: (settings: SmartSpacingSettings) => boolean;
+	// Markers a paragraph must contain for the step to change anything; others skip it
+	trigger?: RegExp;
+	run: (tokens: InlineToken[], settings: SmartSpacingSettings) => InlineToken[];
 }
 
+/**
+ * The fixers in the order they run
+ */
+const SPACING_STEPS: SpacingStep[] = [
+	// 1. Remove internal spaces (e.g. "**  text  **" -> "**text**")
+	{
+		rule: 'internal-bold-space',
+		isEnabled: settings => settings.removeInternalBoldSpaces,
+		trigger: /[*_]/,
+		run: removeInternalSpaces,
+	},
+	// 2. Fix bold spacing (e.g. "中文**bold**" -> "中文 **bold**")
+	{
+		rule: 'cjk-bold-boundary',
+		isEnabled: settings => settings.spaceBetweenChineseAndBold || settings.spaceBetweenEnglishAndBold
+			|| hasCustomRules(settings.customRules, 'bold'),
+		trigger: /\*\*|__/,
+		run: fixBoldSpacing,
+	},
+	// 3. Fix italic spacing (e.g. "中文*italic*" -> "中文 *italic*")
+	{
+		rule: 'cjk-italic-boundary',
+		isEnabled: settings => settings.spaceBetweenChineseAndItalic || hasCustomRules(settings.customRules, 'italic'),
+		trigger: /[*_]/,
+		run: fixItalicSpacing,
+	},
+	// 4. Fix strikethrough spacing (e.g. "中文~~ 删除 ~~" -> "中文 ~~删除~~")
+	{
+		rule: 'cjk-strikethrough-boundary',
+		isEnabled: settings => settings.spaceBetweenChineseAndStrikethrough || hasCustomRules(settings.customRules, 'strikethrough'),
+		trigger: /~~/,
+		run: (tokens, settings) => fixPairedDelimiterSpacing(tokens, '~~', 'strikethrough', settings),
+	},
+	// 5. Fix highlight spacing (e.g. "中文==高亮==" -> "中文 ==高亮==")
+	{
+		rule: 'cjk-highlight-boundary',
+		isEnabled: settings => settings.spaceBetweenChineseAndHighlight || hasCustomRules(settings.customRules, 'highlight'),
+		trigger: /==/,
+		run: (tokens, settings) => fixPairedDelimiterSpacing(tokens, '==', 'highlight', settings),
+	},
+	// 6. Fix CJK-Latin / CJK-number spacing (e.g. "中文English123" -> "中文 English 123")
+	{
+		rule: 'cjk-latin-spacing',
+		isEnabled: settings => settings.spaceBetweenChineseAndEnglish || settings.spaceBetweenChineseAndNumber,
+		run: fixCjkLatinSpacing,
+	},
+	// 7. Normalize spacing around punctuation (e.g. "中文 ， 英文" -> "中文，英文")
+	{
+		rule: 'punctuation-spacing',
+		isEnabled: settings => settings.normalizePunctuationSpacing,
+		run: normalizePunctuationSpacing,
+	},
+	// 8. Fix inline code spacing (e.g. "中文`code`" -> "中文 `code`")
+	{
+		rule: 'cjk-inline-code-boundary',
+		isEnabled: settings => settings.spaceBetweenChineseAndInlineCode || hasCustomRules(settings.customRules, 'code'),
+		trigger: /`/,
+		run: fixInlineCodeSpacing,
+	},
+];
+
 /**
  * Main entry point for processing text
  */
 export function processText(text: string, settings: SmartSpacingSettings): string {
-	const lines = text.split('\n');
-	const resultLines: string[] = [];
-	let inCodeBlock = false;
-	let inLatexBlock = false;
-
-	for (const line of lines) {
-		const trim = line.trim();
-
-		// Handle Code Blocks (``` or ~~~)
-		if (settings.skipCodeBlocks && /^```|^~~~/.test(trim)) {
-			inCodeBlock = !inCodeBlock;
-			resultLines.push(line);
+	return processWithSteps(text, settings, SPACING_STEPS);
+}
+
+/**
+ * Incremental variant of processText: only the paragraphs overlapping one of the line
+ * ranges go through the fixers, everything else is copied as is. Paragraphs are fixed
+ * independently of each other, so a processed paragraph comes out exactly as with
+ * processText; the note is still tokenized as a whole so code blocks are recognized.
+ */
+export function processLines(text: string, settings: SmartSpacingSettings, lines: LineRange[]): string {
+	return processWithSteps(text, settings, SPACING_STEPS, lines);
+}
+
+/**
+ * Run a single rule of the pipeline, e.g. to find out which edits it is responsible for.
+ * Returns the text unchanged when the rule is disabled in the settings.
+ */
+export function processTextWithRule(text: string, settings: SmartSpacingSettings, rule: SpacingRule): string {
+	return processWithSteps(text, settings, SPACING_STEPS.filter(step => step.rule === rule));
+}
+
+/**
+ * Rules enabled by the settings, in pipeline order
+ */
+export function getEnabledRules(settings: SmartSpacingSettings): SpacingRule[] {
+	return SPACING_STEPS.filter(step => step.isEnabled(settings)).map(step => step.rule);
+}
+
+function processWithSteps(text: string, settings: SmartSpacingSettings, steps: SpacingStep[], lines?: LineRange[]): string {
+	return withLfLineEndings(text, lf => processBlocks(lf, settings, steps, lines));
+}
+
+function processBlocks(text: string, settings: SmartSpacingSettings, steps: SpacingStep[], lines?: LineRange[]): string {
+	const enabled = steps.filter(step => step.isEnabled(settings));
+	const blocks = tokenize(text, settings);
+	const alignedRows = findAlignedTableRows(blocks);
+	let line = 0;
+	return blocks
+		.map((block, index) => {
+			// Code blocks, math blocks and blank lines are preserved as is
+			if (block.type !== 'paragraph') {
+				line += countLineBreaks(block.text);
+				return block.text;
+			}
+			const blockText = joinTokens(block.tokens);
+			const start = line;
+			line += countLineBreaks(blockText);
+			// A paragraph's trailing line break belongs to its last line
+			const end = blockText.endsWith('\n') ? line - 1 : line;
+			if (lines && !lines.some(range => range.from <= end && range.to >= start)) return blockText;
+			return processParagraph(block.tokens, settings, enabled, alignedRows.has(index));
+		})
+		.join('');
+}
+
+/**
+ * Indexes of the rows of tables whose pipes line up: every row, the delimiter row
+ * included, takes up the same number of columns
+ */
+function findAlignedTableRows(blocks: Block[]): Set<number> {
+	const aligned = new Set<number>();
+	let start = 0;
+	while (start < blocks.length) {
+		let end = start;
+		while (end < blocks.length && isTableBlock(blocks[end])) end++;
+		if (end === start) {
+			start++;
 			continue;
 		}
+		const rows = blocks.slice(start, end);
+		const widths = new Set(rows.map(block => displayWidth(getBlockText(block).replace(/\n$/, ''))));
+		if (rows.length > 1 && widths.size === 1) {
+			for (let i = start; i < end; i++) aligned.add(i);
+		}
+		start = end;
+	}
+	return aligned;
+}
+
+function isTableBlock(block: Block): boolean {
+	return block.type === 'table-delimiter' || (block.type === 'paragraph' && block.tokens.some(isRunBoundary));
+}
 
-		// Handle LaTeX Blocks ($$)
-		if (/^\s*\$\$/.test(trim)) {
-			// Check for single line $$ ... $$ (e.g. $$ E=mc^2 $$)
-			// If not single line, toggle block state
-			if (!/^\s*\$\$.*\$\$\s*$/.test(trim) || trim === '$$') {
-				inLatexBlock = !inLatexBlock;
+function getBlockText(block: Block): string {
+	return block.type === 'paragraph' ? joinTokens(block.tokens) : block.text;
+}
+
+function countLineBreaks(text: string): number {
+	let count = 0;
+	for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+	return count;
+}
+
+/**
+ * Find the emphasis delimiters the fixers leave untouched: markers without a partner
+ * in their paragraph (e.g. a trailing "**") and pairs that cross each other ("**a*b**c*").
+ * Lone asterisks in Latin prose ("*args", "2*3") are left untouched as well, but not reported.
+ * Offsets refer to the original text.
+ */
+export function findEmphasisProblems(text: string, settings: SmartSpacingSettings): EmphasisProblem[] {
+	const problems: EmphasisProblem[] = [];
+	const lf = toLfLineEndings(text);
+	forEachRun(lf.text, settings, (run, offset) => {
+		for (const problem of analyzeEmphasis(run).problems) {
+			if (problem.type === 'unmatched-emphasis' && isProseMarker(run.text, problem.from, problem.to, settings.cjkScripts)) continue;
+			problems.push({ ...problem, from: lf.toOriginalOffset(offset + problem.from), to: lf.toOriginalOffset(offset + problem.to) });
+		}
+	});
+	return problems;
+}
+
+/**
+ * Offsets where a formatting marker the fixers space around starts or ends: both runs of
+ * every paired emphasis, strikethrough or highlight delimiter, and both ends of inline code.
+ * A lone "*" or "=" in prose is not a marker. Expects LF line endings.
+ */
+export function findMarkerBoundaries(text: string, settings: SmartSpacingSettings): Set<number> {
+	const boundaries = new Set<number>();
+	forEachRun(text, settings, (run, offset) => {
+		for (const { delimiter, open, close } of analyzeEmphasis(run).pairs) {
+			for (const index of [open, close]) {
+				boundaries.add(offset + index);
+				boundaries.add(offset + index + delimiter.length);
 			}
-			resultLines.push(line);
-			continue;
 		}
+		run.tokens.forEach((token, index) => {
+			if (token.type !== 'code') return;
+			boundaries.add(offset + run.ends[index] - token.text.length);
+			boundaries.add(offset + run.ends[index]);
+		});
+	});
+	return boundaries;
+}
 
-		// If inside a block, preserve line as is
-		if (inCodeBlock || inLatexBlock) {
-			resultLines.push(line);
+/**
+ * Call visit with every run of the text and the offset it starts at, the way the fixers see them
+ */
+function forEachRun(text: string, settings: SmartSpacingSettings, visit: (run: FlatRun, offset: number) => void): void {
+	let offset = 0;
+	let run: InlineToken[] = [];
+
+	const flushRun = () => {
+		const flat = flattenRun(run, settings);
+		visit(flat, offset);
+		offset += flat.text.length;
+		run = [];
+	};
+
+	for (const block of tokenize(text, settings)) {
+		if (block.type !== 'paragraph') {
+			offset += block.text.length;
 			continue;
 		}
+		for (const token of block.tokens) {
+			if (isRunBoundary(token)) {
+				flushRun();
+				offset += token.text.length;
+			} else {
+				run.push(token);
+			}
+		}
+		flushRun();
+	}
+}
 
-		// Process the line
-		resultLines.push(processLine(line, settings));
+/**
+ * Process a paragraph as one run, so emphasis may span soft line breaks as in CommonMark;
+ * the line breaks themselves are protected tokens. Table rows are processed cell by cell.
+ * In an aligned table the columns a cell gains come out of its trailing padding (keeping
+ * one space) and those it loses go back into it; a cell without enough padding is left as is.
+ */
+function processParagraph(tokens: InlineToken[], settings: SmartSpacingSettings, steps: SpacingStep[], isAlignedRow = false): string {
+	const parts: string[] = [];
+	let run: InlineToken[] = [];
+	for (const token of tokens) {
+		if (isRunBoundary(token)) {
+			const cell = joinTokens(processRun(run, settings, steps));
+			const padding = token.text.length - token.text.replace(/^ +/, '').length;
+			const growth = displayWidth(cell) - displayWidth(joinTokens(run));
+			if (!isAlignedRow || growth === 0) {
+				parts.push(cell, token.text);
+			} else if (growth < padding) {
+				parts.push(cell, ' '.repeat(padding - growth) + token.text.slice(padding));
+			} else {
+				parts.push(joinTokens(run), token.text);
+			}
+			run = [];
+		} else {
+			run.push(token);
+		}
 	}
+	parts.push(joinTokens(processRun(run, settings, steps)));
+	return parts.join('');
+}
 
-	return resultLines.join('\n');
+function isRunBoundary(token: InlineToken): boolean {
+	return token.type === 'table-pipe';
 }
 
 /**
- * Process a single line by applying protections, running fixers, and restoring protections
+ * Process a run of inline tokens by running every given fixer
  */
-function processLine(line: string, settings: SmartSpacingSettings): string {
-	// 1. Protect sensitive content (inline code, latex, lists)
-	const { protectedLine, sections } = protectLine(line, settings);
-	let currentLine = protectedLine;
-
-	// 2. Remove internal spaces (e.g. "**  text  **" -> "**text**")
-	if (settings.removeInternalBoldSpaces) {
-		currentLine = removeInternalSpaces(currentLine);
-	}
+function processRun(tokens: InlineToken[], settings: SmartSpacingSettings, steps: SpacingStep[]): InlineToken[] {
+	// The fixers only add or remove whitespace, so the markers of a run never change
+	const text = joinTokens(tokens);
+	return steps.reduce((current, step) => step.trigger && !step.trigger.test(text) ? current : step.run(current, settings), tokens);
+}
 
-	// 3. Fix bold spacing (e.g. "中文**bold**" -> "中文 **bold**")
-	if (settings.spaceBetweenChineseAndBold || settings.spaceBetweenEnglishAndBold) {
-		currentLine = fixBoldSpacing(currentLine, settings);
-	}
+/**
+ * Whether the fixers may edit a token. Inline code is only editable when it is not skipped.
+ */
+function isEditable(token: InlineToken, settings: SmartSpacingSettings): boolean {
+	return token.type === 'text' || (token.type === 'code' && !settings.skipInlineCode);
+}
 
-	// 4. Fix italic spacing (e.g. "中文*italic*" -> "中文 *italic*")
-	if (settings.spaceBetweenChineseAndItalic) {
-		currentLine = fixItalicSpacing(currentLine, settings);
-	}
+function flattenRun(tokens: InlineToken[], settings: SmartSpacingSettings): FlatRun {
+	const owners: number[] = [];
+	const ends: number[] = [];
+	tokens.forEach((token, index) => {
+		for (let i = 0; i < token.text.length; i++) owners.push(index);
+		ends.push(owners.length);
+	});
+	return { tokens, text: joinTokens(tokens), owners, ends, editable: tokens.map(token => isEditable(token, settings)) };
+}
 
-	// 5. Restore protected sections
-	return restoreProtectedSections(currentLine, sections);
+function joinTokens(tokens: InlineToken[]): string {
+	return tokens.map(token => token.text).join('');
 }
 
 /**
- * Protect sensitive sections (Lists, Formulas, Inline Code)
+ * Builds the output of a fixer token by token. Characters are written to the token
+ * they came from; inserted spaces go to the editable token they are next to.
+ *
+ * Output is collected as chunks and joined once per token: appending to a string and
+ * then reading its last character makes V8 flatten the whole string every time, which
+ * turns a long line into quadratic work.
  */
-function protectLine(line: string, settings: SmartSpacingSettings): { protectedLine: string, sections: ProtectedSection[] } {
-	const sections: ProtectedSection[] = [];
-	let protectedLine = line;
-	let nextIndex = 0;
+class RunWriter {
+	private readonly chunks: string[][];
+	private readonly lengths: number[];
+	private current = 0;
 
-	// 1. Protect List Markers (e.g. "  * ") - Only the asterisk itself
-	const listMatch = /^(?:\s*)([*])(?=\s)/.exec(protectedLine);
-	if (listMatch) {
-		const placeholder = `__SSS_LIST_${nextIndex}__`;
-		// listMatch[1] captures the '*', listMatch[0] captures whitespace+*, but we only want to protect the '*' to avoid messing up indentation logic if we ever touch it. 
-		// Actually the original logic replaced listMatch[0]. Let's stick to original behavior to be safe, but review:
-		// original: /^(?:\s*)([*])(?=\s)/ captures the asterisk in group 1. But exec returns match array where [0] is the whole match.
-		// The original logic replaced match[0].
-		// Example: "  * Item". Match: "  *". Replaced by placeholder.
-		// Result: "PLACEHOLDER Item".
-		// This protects the indentation and the bullet. Correct.
-		sections.push({ placeholder, original: listMatch[0] });
-		protectedLine = protectedLine.replace(listMatch[0], placeholder);
-		nextIndex++;
+	constructor(private readonly run: FlatRun) {
+		this.chunks = run.tokens.map(() => []);
+		this.lengths = run.tokens.map(() => 0);
 	}
 
-	// 2. Protect Inline Code (`code`)
-	if (settings.skipInlineCode) {
-		protectedLine = protectedLine.replace(/`[^`]+`/g, (match) => {
-			const placeholder = `__SSS_CODE_${nextIndex++}__`;
-			sections.push({ placeholder, original: match });
-			return placeholder;
-		});
+	write(text: string, owner: number): void {
+		if (text) {
+			this.chunks[owner].push(text);
+			this.lengths[owner] += text.length;
+		}
+		this.current = owner;
 	}
 
-	// 3. Protect Inline LaTeX ($ not preceded by \)
-	const latexRegex = /(?<!\\)\$(?:\\.|[^$\\])*\$/g;
-	protectedLine = protectedLine.replace(latexRegex, (match) => {
-		// Avoid double protection if it somehow overlaps (unlikely with replace)
-		const placeholder = `__SSS_LATEX_${nextIndex++}__`;
-		sections.push({ placeholder, original: match });
-		return placeholder;
-	});
+	/**
+	 * Copy the rest of the token at index unchanged and return the index after it
+	 */
+	copyToken(index: number): number {
+		const owner = this.run.owners[index];
+		const end = this.run.ends[owner];
+		this.write(this.run.text.slice(index, end), owner);
+		return end;
+	}
 
-	return { protectedLine, sections };
-}
+	/**
+	 * Last character written so far, across token boundaries
+	 */
+	lastChar(): string | undefined {
+		// Two code units are enough for a surrogate pair that was written one unit at a time
+		let tail = '';
+		for (let i = this.current; i >= 0 && tail.length < 2; i--) {
+			const chunks = this.chunks[i];
+			for (let c = chunks.length - 1; c >= 0 && tail.length < 2; c--) {
+				tail = chunks[c].slice(-2) + tail;
+			}
+		}
+		return charBefore(tail, tail.length);
+	}
 
-function restoreProtectedSections(line: string, sections: ProtectedSection[]): string {
-	let result = line;
-	// Restore in reverse order to handle nesting if any (though we try to avoid nesting)
-	for (let i = sections.length - 1; i >= 0; i--) {
-		const { placeholder, original } = sections[i];
-		result = result.replace(placeholder, original);
+	mark(): WriterMark {
+		return { token: this.current, length: this.lengths[this.current] };
+	}
+
+	/**
+	 * Remove trailing whitespace back to the mark, never touching protected tokens
+	 */
+	trimEnd(mark: WriterMark): void {
+		for (let i = this.current; i >= mark.token; i--) {
+			if (!this.run.editable[i]) return;
+			if (this.trimToken(i, i === mark.token ? mark.length : 0)) return;
+		}
+	}
+
+	/**
+	 * Trim trailing whitespace of one token down to floor; true if non-whitespace was reached
+	 */
+	private trimToken(index: number, floor: number): boolean {
+		const chunks = this.chunks[index];
+		while (this.lengths[index] > floor) {
+			const last = chunks[chunks.length - 1];
+			const min = Math.max(0, last.length - (this.lengths[index] - floor));
+			let end = last.length;
+			while (end > min && /\s/.test(last[end - 1])) end--;
+			if (end === last.length) return true;
+
+			chunks.pop();
+			if (end > 0) chunks.push(last.slice(0, end));
+			this.lengths[index] -= last.length - end;
+			if (end > min) return true;
+		}
+		return false;
+	}
+
+	tokens(): InlineToken[] {
+		return this.run.tokens.map((token, i) => ({ type: token.type, text: this.chunks[i].join('') }));
 	}
-	return result;
 }
 
 /**
  * State machine to clean bold/italic internal spaces
- * **  text  ** -> **text**
+ * **  text  ** -> **text**, __  text  __ -> __text__
  */
-function removeInternalSpaces(line: string): string {
-	let result = '';
+function removeInternalSpaces(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	const run = flattenRun(tokens, settings);
+	const out = new RunWriter(run);
+	const { text } = run;
 	let i = 0;
-	const len = line.length;
-	// Stack for markers: type ('*', '**', '***') and startPos in 'result'
-	const markerStack: { type: string; startPos: number }[] = [];
+	// Stack for markers: type ('*', '**', '***', '_', '__', '___') and the output position right after it
+	const markerStack: { type: string; mark: WriterMark }[] = [];
+	// Unmatched and crossing markers are left alone
+	const unsafe = findUnsafeDelimiters(run);
 
-	while (i < len) {
-		// Three stars ***
-		if (isMarker(line, i, 3)) {
-			handleMarker(3, '***');
-		}
-		// Two stars **
-		else if (isMarker(line, i, 2)) {
-			handleMarker(2, '**');
-		}
-		// One star *
-		else if (isMarker(line, i, 1)) {
-			handleMarker(1, '*');
+	while (i < text.length) {
+		const owner = run.owners[i];
+		if (!run.editable[owner]) {
+			i = out.copyToken(i);
+			continue;
 		}
-		else {
-			result += line[i];
+
+		const delimiter = readDelimiterRun(text, i, run.ends[owner]);
+		if (!delimiter) {
+			out.write(text[i], owner);
 			i++;
+		} else if (delimiter.isDelimiter && !unsafe.has(i)) {
+			handleMarker(delimiter.length, delimiter.char.repeat(delimiter.length), owner);
+		} else {
+			// Intraword underscores, overlong runs and unsafe markers are plain text
+			out.write(text.slice(i, i + delimiter.length), owner);
+			i += delimiter.length;
 		}
 	}
 
-	function isMarker(text: string, index: number, count: number): boolean {
-		if (index + count > text.length) return false;
-		for (let j = 0; j < count; j++) {
-			if (text[index + j] !== '*') return false;
-		}
-		// Ensure it's exactly 'count' stars (not part of a larger set if we already checked larger sets)
-		// processed in order (3, 2, 1) so if we matched 3, we consumed it.
-		// But if we are checking 2, and it is 3, we should have already caught it?
-		// Yes, the main loop order matters.
-		// However, we need to make sure we don't match '**' inside '***' if we didn't check '***' first? 
-		// We do check '***' first.
-		// Check that the character AFTER is not a star?
-		if (index + count < text.length && text[index + count] === '*') return false;
-		return true;
-	}
-
-	function handleMarker(count: number, type: string) {
+	function handleMarker(count: number, type: string, owner: number) {
 		const lastMarker = markerStack[markerStack.length - 1];
 		if (lastMarker && lastMarker.type === type) {
 			// Closing marker
-			// Trim trailing spaces in 'result' before appending closing marker
-			while (result.length > lastMarker.startPos && /\s/.test(result[result.length - 1])) {
-				result = result.slice(0, -1);
-			}
-			result += type;
+			// Trim trailing spaces in the output before appending closing marker
+			out.trimEnd(lastMarker.mark);
+			out.write(type, owner);
 			markerStack.pop();
 			i += count;
 		} else {
 			// Opening marker
-			result += type;
-			markerStack.push({ type, startPos: result.length }); // startPos is right after marker
+			out.write(type, owner);
+			markerStack.push({ type, mark: out.mark() });
 			i += count;
-			// Skip spaces after opening marker
-			while (i < len && /[ \t]/.test(line[i])) { // Only skip spaces/tabs, not newlines (though line shouldn't have newlines)
+			// Skip spaces after opening marker (only spaces/tabs in the same token)
+			while (i < run.ends[owner] && /[ \t]/.test(text[i])) {
 				i++;
 			}
 		}
 	}
 
-	return result;
+	return out.tokens();
 }
 
 
 /**
- * Fix spaces around Bold (**...**)
+ * Fix spaces around Bold (**...** and __...__)
  */
-function fixBoldSpacing(line: string, settings: SmartSpacingSettings): string {
-	let result = '';
+function fixBoldSpacing(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	const run = flattenRun(tokens, settings);
+	const out = new RunWriter(run);
+	const { text } = run;
 	let i = 0;
-	let isBold = false;
-	const len = line.length;
-	const spaceChar = getSpaceChar(settings);
+	// Bold state is tracked per delimiter character so **a __b__ c** nests correctly
+	const isBold: Record<EmphasisChar, boolean> = { '*': false, '_': false };
+	const unsafe = findUnsafeDelimiters(run);
 
-	while (i < len) {
-		// Check for *** (treated as bold for spacing purposes initially, or logic split?)
-		// Original code treated *** as "toggle bold" in the bold-spacer.
-		// Let's replicate original behavior: treating *** as a token that toggles 'isBold'.
+	while (i < text.length) {
+		const owner = run.owners[i];
+		if (!run.editable[owner]) {
+			i = out.copyToken(i);
+			continue;
+		}
 
-		if (isMarker(line, i, 3)) {
-			handleBoldToken(3, '***');
-		} else if (isMarker(line, i, 2)) {
-			handleBoldToken(2, '**');
+		// Original code treated *** as "toggle bold" in the bold-spacer.
+		// Let's replicate original behavior: treating *** (and ___) as a token that toggles 'isBold'.
+		const delimiter = readDelimiterRun(text, i, run.ends[owner]);
+		if (delimiter && delimiter.isDelimiter && delimiter.length >= 2 && !unsafe.has(i)) {
+			handleBoldToken(delimiter.length, delimiter.char, owner);
+		} else if (delimiter) {
+			out.write(text.slice(i, i + delimiter.length), owner);
+			i += delimiter.length;
 		} else {
-			result += line[i];
+			out.write(text[i], owner);
 			i++;
 		}
 	}
 
-	function isMarker(text: string, index: number, count: number): boolean {
-		if (index + count > text.length) return false;
-		for (let j = 0; j < count; j++) if (text[index + j] !== '*') return false;
-		if (index + count < text.length && text[index + count] === '*') return false;
-		return true;
-	}
-
-	function handleBoldToken(count: number, token: string) {
-		if (!isBold) {
+	function handleBoldToken(count: number, char: EmphasisChar, owner: number) {
+		const token = char.repeat(count);
+		if (!isBold[char]) {
 			// Opening
-			if (shouldAddSpaceBefore(result[result.length - 1], settings)) {
-				result += spaceChar;
-			}
-			result += token;
-			isBold = true;
+			out.write(getBoundarySpace('bold', out.lastChar(), settings), owner);
+			out.write(token, owner);
+			isBold[char] = true;
 			i += count;
 		} else {
 			// Closing
-			result += token;
-			isBold = false;
+			out.write(token, owner);
+			isBold[char] = false;
 			i += count;
-			if (shouldAddSpaceAfter(line[i], settings)) {
-				result += spaceChar;
-			}
+			out.write(getBoundarySpace('bold', charAt(text, i), settings), owner);
 		}
 	}
 
-	return result;
+	return out.tokens();
 }
 
 /**
- * Fix spaces around Italic (*...*)
+ * Fix spaces around Italic (*...* and _..._)
  */
-function fixItalicSpacing(line: string, settings: SmartSpacingSettings): string {
-	// We need to protect BOLD markers inside this function so they aren't confused for italic markers.
-	// But we can't use \x00 characters that look like placeholders from earlier?
-	// We can use a unique placeholder for BOLD protection just for this step.
-	// OR, we can just skip over them in the loop.
+function fixItalicSpacing(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	// Bold markers (** / __ / *** / ___) are passed through untouched so they
+	// aren't confused for italic markers.
 
-	let result = '';
+	const run = flattenRun(tokens, settings);
+	const out = new RunWriter(run);
+	const { text } = run;
 	let i = 0;
-	let isItalic = false;
-	const len = line.length;
-	const spaceChar = getSpaceChar(settings);
-
-	while (i < len) {
-		// Pass through bold markers (*** or **) without processing them as italic *
-		if (isMarker(line, i, 3)) {
-			result += '***';
-			i += 3;
+	const isItalic: Record<EmphasisChar, boolean> = { '*': false, '_': false };
+	const unsafe = findUnsafeDelimiters(run);
+
+	while (i < text.length) {
+		const owner = run.owners[i];
+		if (!run.editable[owner]) {
+			i = out.copyToken(i);
 			continue;
 		}
-		if (isMarker(line, i, 2)) {
-			result += '**';
-			i += 2;
+
+		const delimiter = readDelimiterRun(text, i, run.ends[owner]);
+		if (!delimiter) {
+			out.write(text[i], owner);
+			i++;
 			continue;
 		}
 
-		// Italic Marker *
-		if (isMarker(line, i, 1)) {
-			if (!isItalic) {
-				// Opening
-				// Check char before
-				const charBefore = result[result.length - 1];
-				if (settings.spaceBetweenChineseAndItalic && isChinese(charBefore) && charBefore !== ' ' && charBefore !== '\u200B') {
-					result += spaceChar;
-				}
-				result += '*';
-				isItalic = true;
-				i += 1;
-			} else {
-				// Closing
-				result += '*';
-				isItalic = false;
-				i += 1;
-				// Check char after
-				const charAfter = line[i];
-				if (settings.spaceBetweenChineseAndItalic && isChinese(charAfter)) {
-					result += spaceChar;
-				}
+		// Pass through bold markers, non-delimiter runs and unsafe markers without processing them as italic
+		if (!delimiter.isDelimiter || delimiter.length !== 1 || unsafe.has(i)) {
+			out.write(text.slice(i, i + delimiter.length), owner);
+			i += delimiter.length;
+			continue;
+		}
+
+		// Italic Marker * or _
+		const char = delimiter.char;
+		if (!isItalic[char]) {
+			// Opening
+			out.write(getBoundarySpace('italic', out.lastChar(), settings), owner);
+			out.write(char, owner);
+			isItalic[char] = true;
+			i += 1;
+		} else {
+			// Closing
+			out.write(char, owner);
+			isItalic[char] = false;
+			i += 1;
+			out.write(getBoundarySpace('italic', charAt(text, i), settings), owner);
+		}
+	}
+
+	return out.tokens();
+}
+
+/**
+ * Fix spaces around a symmetric two-character delimiter (~~...~~ or ==...==)
+ * Delimiters are paired together with the emphasis markers, so a run with whitespace on
+ * both sides ("a == b"), an unmatched one and pairs crossing bold or italic are left alone.
+ */
+function fixPairedDelimiterSpacing(tokens: InlineToken[], delimiter: string, type: DelimiterType, settings: SmartSpacingSettings): InlineToken[] {
+	const run = flattenRun(tokens, settings);
+	const { text } = run;
+
+	// Leave empty pairs like "~~ ~~" as they are
+	const closeByOpen = new Map<number, number>();
+	for (const { delimiter: pairDelimiter, open, close } of analyzeEmphasis(run).pairs) {
+		if (pairDelimiter === delimiter && text.slice(open + delimiter.length, close).trim()) {
+			closeByOpen.set(open, close);
+		}
+	}
+	const closes = new Set(closeByOpen.values());
+
+	const out = new RunWriter(run);
+	let openMark: WriterMark | null = null;
+	let i = 0;
+	while (i < text.length) {
+		const owner = run.owners[i];
+		if (!run.editable[owner]) {
+			i = out.copyToken(i);
+			continue;
+		}
+
+		if (closeByOpen.has(i)) {
+			out.write(getBoundarySpace(type, out.lastChar(), settings), owner);
+			out.write(delimiter, owner);
+			openMark = out.mark();
+			i += delimiter.length;
+			// Internal spaces are cleaned together with bold/italic ones
+			while (settings.removeInternalBoldSpaces && i < run.ends[owner] && /\s/.test(text[i])) {
+				i++;
 			}
+		} else if (closes.has(i)) {
+			if (settings.removeInternalBoldSpaces && openMark) {
+				out.trimEnd(openMark);
+			}
+			out.write(delimiter, owner);
+			i += delimiter.length;
+			out.write(getBoundarySpace(type, charAt(text, i), settings), owner);
 		} else {
-			result += line[i];
+			out.write(text[i], owner);
 			i++;
 		}
 	}
 
-	function isMarker(text: string, index: number, count: number): boolean {
-		if (index + count > text.length) return false;
-		for (let j = 0; j < count; j++) if (text[index + j] !== '*') return false;
-		if (index + count < text.length && text[index + count] === '*') return false;
-		return true;
-	}
+	return out.tokens();
+}
+
+/**
+ * Fix spaces around inline code spans (`code`, ``code``)
+ * The content of the code span itself is never modified.
+ */
+function fixInlineCodeSpacing(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	const result = tokens.map(token => ({ ...token }));
+
+	result.forEach((token, index) => {
+		if (token.type !== 'code') return;
+		const prev = result[index - 1];
+		const next = result[index + 1];
+		if (prev && prev.type === 'text') {
+			prev.text += getBoundarySpace('code', charBefore(prev.text, prev.text.length), settings);
+		}
+		if (next && next.type === 'text') {
+			next.text = getBoundarySpace('code', charAt(next.text, 0), settings) + next.text;
+		}
+	});
 
 	return result;
 }
 
+/**
+ * Insert spaces between CJK characters and Latin letters / digits (pangu-style)
+ * A space is only inserted next to an editable token, so code, LaTeX and URLs are never split.
+ */
+function fixCjkLatinSpacing(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	const run = flattenRun(tokens, settings);
+	const out = new RunWriter(run);
+	const { text } = run;
+	let prev: string | undefined;
+	let prevOwner = -1;
+	let i = 0;
+
+	// Iterate by code point so surrogate pairs (e.g. 𠀀) are classified as a whole
+	for (const char of text) {
+		const owner = run.owners[i];
+		if (prev !== undefined && (run.editable[owner] || run.editable[prevOwner]) && needsCjkLatinSpace(prev, char, settings)) {
+			out.write(' ', run.editable[owner] ? owner : prevOwner);
+		}
+		out.write(char, owner);
+		prev = char;
+		prevOwner = owner;
+		i += char.length;
+	}
+
+	return out.tokens();
+}
+
+function needsCjkLatinSpace(a: string, b: string, settings: SmartSpacingSettings): boolean {
+	if (isCjk(a, settings.cjkScripts)) return isLatinSpacingTarget(b, settings);
+	if (isCjk(b, settings.cjkScripts)) return isLatinSpacingTarget(a, settings);
+	return false;
+}
+
+function isLatinSpacingTarget(char: string, settings: SmartSpacingSettings): boolean {
+	if (/[a-zA-Z]/.test(char)) return settings.spaceBetweenChineseAndEnglish;
+	if (/[0-9]/.test(char)) return settings.spaceBetweenChineseAndNumber;
+	return false;
+}
+
+/**
+ * Normalize spaces around punctuation:
+ * - Full-width punctuation never has spaces next to it ("中文 ， 英文" -> "中文，英文")
+ * - Half-width punctuation directly follows a CJK character ("中文 ," -> "中文,")
+ */
+function normalizePunctuationSpacing(tokens: InlineToken[], settings: SmartSpacingSettings): InlineToken[] {
+	const run = flattenRun(tokens, settings);
+	const out = new RunWriter(run);
+	const { text } = run;
+	let i = 0;
+
+	while (i < text.length) {
+		const owner = run.owners[i];
+		if (!run.editable[owner]) {
+			i = out.copyToken(i);
+			continue;
+		}
+		if (!/[ \t]/.test(text[i])) {
+			out.write(text[i], owner);
+			i++;
+			continue;
+		}
+
+		// Only spaces between two visible characters are candidates (indentation is kept)
+		let end = i;
+		while (end < run.ends[owner] && /[ \t]/.test(text[end])) end++;
+		const before = charBefore(text, i);
+		const after = charAt(text, end);
+		const isBetweenText = before !== undefined && after !== undefined && !/\s/.test(before) && !/\s/.test(after);
+		const remove = isBetweenText && (
+			isFullwidthPunctuation(before) || isFullwidthPunctuation(after)
+			|| (isCjk(before, settings.cjkScripts) && /[,.!?;:]/.test(after))
+		);
+		if (!remove) {
+			out.write(text.slice(i, end), owner);
+		}
+		i = end;
+	}
+
+	return out.tokens();
+}
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
+/**
+ * Pair the emphasis delimiters of a run like a stack of open markers. A closing marker
+ * whose opener is not on top of the stack crosses the markers opened in between, so
+ * both pairs are reported; whatever is still open at the end of the paragraph is unmatched.
+ * Strikethrough and highlight markers take part so they can't cross bold or italic, but
+ * an unmatched one is ordinary prose ("x==1") rather than a problem.
+ */
+function analyzeEmphasis(run: FlatRun): EmphasisAnalysis {
+	const { text } = run;
+	const problems: EmphasisProblem[] = [];
+	const pairs: DelimiterPair[] = [];
+	const stack: { delimiter: string; index: number; crossing: boolean }[] = [];
+	const report = (type: EmphasisProblem['type'], delimiter: string, index: number) => {
+		problems.push({ type, delimiter, from: index, to: index + delimiter.length });
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const owner = run.owners[i];
+		const delimiter = run.editable[owner]
+			? readDelimiterRun(text, i, run.ends[owner]) ?? readPairedDelimiterRun(text, i, run.ends[owner])
+			: null;
+		if (!delimiter) {
+			i = run.editable[owner] ? i + 1 : run.ends[owner];
+			continue;
+		}
+		if (delimiter.isDelimiter) {
+			const type = delimiter.char.repeat(delimiter.length);
+			const openIndex = stack.map(entry => entry.delimiter).lastIndexOf(type);
+			if (openIndex === -1) {
+				stack.push({ delimiter: type, index: i, crossing: false });
+			} else {
+				const [opener, ...inner] = stack.splice(openIndex);
+				if (opener.crossing || inner.length > 0) {
+					report('crossing-emphasis', type, opener.index);
+					report('crossing-emphasis', type, i);
+				} else {
+					pairs.push({ delimiter: type, open: opener.index, close: i });
+				}
+				// Markers opened in between stay open, but their pairs cross this one
+				stack.push(...inner.map(entry => ({ ...entry, crossing: true })));
+			}
+		}
+		i += delimiter.length;
+	}
+
+	for (const entry of stack) {
+		if (entry.crossing) {
+			report('crossing-emphasis', entry.delimiter, entry.index);
+		} else if (!isPairedDelimiter(entry.delimiter)) {
+			report('unmatched-emphasis', entry.delimiter, entry.index);
+		}
+	}
+	return { problems: problems.sort((a, b) => a.from - b.from), pairs };
+}
+
+/**
+ * Start offsets of the delimiter runs the emphasis fixers must treat as plain text
+ */
+function findUnsafeDelimiters(run: FlatRun): Set<number> {
+	return new Set(analyzeEmphasis(run).problems.map(problem => problem.from));
+}
+
 /**
  * Get the space character based on settings
  * Returns zero-width space (\u200B) or regular space
@@ -356,24 +942,113 @@ function getSpaceChar(settings: SmartSpacingSettings): string {
 	return settings.useZeroWidthSpace ? '\u200B' : ' ';
 }
 
-function isChinese(char: string): boolean {
-	return /[\u4e00-\u9fa5]/.test(char);
+/**
+ * Read the run of '*' or '_' characters starting at index.
+ * Returns null if the character at index is not an emphasis character.
+ * Runs longer than three characters are never delimiters (e.g. thematic breaks), nor
+ * are runs with whitespace on both sides ("1 * 2 * 3"); underscore runs additionally
+ * follow CommonMark's intraword rule.
+ */
+function readDelimiterRun(text: string, index: number, end: number): DelimiterRun | null {
+	const char = text[index];
+	if (char !== '*' && char !== '_') return null;
+
+	// A run never extends into the next token
+	const length = Math.min(countRun(text, index), end - index);
+	let isDelimiter = length <= 3 && !isSpacedRun(text, index, length);
+	if (isDelimiter && char === '_') {
+		isDelimiter = isUnderscoreDelimiter(charBefore(text, index), charAt(text, index + length));
+	}
+	return { char, length, isDelimiter };
+}
+
+/**
+ * Read the run of '~' or '=' characters starting at index. Only "~~" and "==" are
+ * delimiters, and not when whitespace surrounds them, which keeps operators in prose
+ * ("a == b", "x == 1") from pairing up; a marker touching text on one side
+ * ("中文~~ 删除 ~~") still pairs so its spaces can be cleaned.
+ */
+function readPairedDelimiterRun(text: string, index: number, end: number): DelimiterRun<'~' | '='> | null {
+	const char = text[index];
+	if (char !== '~' && char !== '=') return null;
+
+	const length = Math.min(countRun(text, index), end - index);
+	return { char, length, isDelimiter: length === 2 && !isSpacedRun(text, index, length) };
+}
+
+/**
+ * Whether spaces surround a run, so it can neither open nor close (CommonMark's flanking
+ * rule). Line edges don't count, so "** 粗体 **" on a line of its own still pairs and is cleaned up.
+ */
+function isSpacedRun(text: string, index: number, length: number): boolean {
+	return isSpaceChar(charBefore(text, index)) && isSpaceChar(charAt(text, index + length));
+}
+
+/**
+ * Whether an unmatched marker reads as prose rather than emphasis missing its partner:
+ * nothing CJK touches it, and it either has a space on one side ("*args", "2 *3") or
+ * sits between Latin letters or digits ("2*3", "a**b").
+ */
+function isProseMarker(text: string, from: number, to: number, scripts: CjkScript[]): boolean {
+	const before = charBefore(text, from);
+	const after = charAt(text, to);
+	if (isCjk(before, scripts) || isCjk(after, scripts)) return false;
+	return isSpaceChar(before) || isSpaceChar(after) || (!!before && !!after && isAlphaNumeric(before) && isAlphaNumeric(after));
+}
+
+function isPairedDelimiter(delimiter: string): boolean {
+	return delimiter === '~~' || delimiter === '==';
+}
+
+function isSpaceChar(char: string | undefined): boolean {
+	return char === ' ' || char === '\t';
+}
+
+/**
+ * CommonMark does not allow '_' to open or close emphasis inside a word, which keeps
+ * snake_case_names, URLs and names like 报告_2024_最终版 intact. Between two CJK
+ * characters there are no words to join, so `中文__粗体__文字` is emphasis that only
+ * needs spacing to render.
+ */
+function isUnderscoreDelimiter(before: string | undefined, after: string | undefined): boolean {
+	if (!isWordChar(before) || !isWordChar(after)) return true;
+	return isCjk(before) && isCjk(after);
 }
 
 function isAlphaNumeric(char: string): boolean {
 	return /[a-zA-Z0-9]/.test(char);
 }
 
-function shouldAddSpaceBefore(char: string, settings: SmartSpacingSettings): boolean {
-	if (!char || char === ' ' || char === '\t' || char === '\u200B') return false;
-	if (isChinese(char)) return settings.spaceBetweenChineseAndBold;
-	if (isAlphaNumeric(char)) return settings.spaceBetweenEnglishAndBold;
-	return false;
+function isWordChar(char: string | undefined): boolean {
+	return !!char && /[\p{L}\p{N}]/u.test(char);
 }
 
-function shouldAddSpaceAfter(char: string, settings: SmartSpacingSettings): boolean {
-	if (!char || char === ' ' || char === '\t' || char === '\n' || char === '\u200B') return false;
-	if (isChinese(char)) return settings.spaceBetweenChineseAndBold;
-	if (isAlphaNumeric(char)) return settings.spaceBetweenEnglishAndBold;
-	return false;
+/**
+ * Space to insert between a delimiter and the character outside it ('' for none).
+ * Custom rules decide first; otherwise the built-in toggles apply.
+ */
+function getBoundarySpace(type: DelimiterType, char: string | undefined, settings: SmartSpacingSettings): string {
+	if (!char || /\s/.test(char) || char === '\u200B') return '';
+	const rule = findCustomRule(settings.customRules, type, char, settings.cjkScripts);
+	if (rule) return SPACING_ACTION_TEXT[rule.action];
+	return needsBuiltInSpace(type, char, settings) ? getSpaceChar(settings) : '';
+}
+
+function needsBuiltInSpace(type: DelimiterType, char: string, settings: SmartSpacingSettings): boolean {
+	switch (type) {
+		case 'bold':
+			// Full-width punctuation already provides visual separation: "，**粗体**" stays as is
+			if (isFullwidthPunctuation(char)) return false;
+			if (isCjk(char, settings.cjkScripts)) return settings.spaceBetweenChineseAndBold;
+			if (isAlphaNumeric(char)) return settings.spaceBetweenEnglishAndBold;
+			return false;
+		case 'italic':
+			return settings.spaceBetweenChineseAndItalic && isCjk(char, settings.cjkScripts);
+		case 'strikethrough':
+			return settings.spaceBetweenChineseAndStrikethrough && isCjk(char, settings.cjkScripts);
+		case 'highlight':
+			return settings.spaceBetweenChineseAndHighlight && isCjk(char, settings.cjkScripts);
+		case 'code':
+			return settings.spaceBetweenChineseAndInlineCode && isCjk(char, settings.cjkScripts);
+	}
 }
@@ -0,0 +1,44 @@
+/**
+ * Rule profiles: named sets of rule overrides picked per folder, tag or note
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { t } from './i18n';
+import { PROFILE_RULE_KEYS, RuleProfile } from './resolve';
+
+/**
+ * Edit the overrides of a profile. Every rule can follow the global setting or be switched on or off.
+ */
+export class ProfileModal extends Modal {
+	constructor(app: App, private readonly profile: RuleProfile, private readonly onSave: () => Promise<void>) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText(t('profileModal.title', { name: this.profile.name }));
+
+		for (const key of PROFILE_RULE_KEYS) {
+			const value = this.profile.overrides[key];
+			new Setting(contentEl)
+				.setName(t(`setting.${key}`))
+				.addDropdown(dropdown => dropdown
+					.addOption('inherit', t('profileModal.inherit'))
+					.addOption('on', t('profileModal.on'))
+					.addOption('off', t('profileModal.off'))
+					.setValue(value === undefined ? 'inherit' : value ? 'on' : 'off')
+					.onChange(async (choice) => {
+						if (choice === 'inherit') {
+							delete this.profile.overrides[key];
+						} else {
+							this.profile.overrides[key] = choice === 'on';
+						}
+						await this.onSave();
+					}));
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
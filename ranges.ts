@@ -0,0 +1,77 @@
+/**
+ * Ranges of a note used by the partial formatting commands
+ */
+
+import type { SmartSpacingSettings } from './processor';
+import { getHeadingLevel, tokenize } from './tokenizer';
+
+/**
+ * A range of offsets [from, to) in a note
+ */
+export interface TextRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * The block containing the line: a paragraph, list item, heading or code block as
+ * recognized by the tokenizer
+ */
+export function getParagraphRange(text: string, line: number, settings: SmartSpacingSettings): TextRange {
+	const lines = text.split('\n');
+	const block = findBlocks(text, settings).find(block => block.end >= line) ?? { start: line, end: line };
+	return getLinesRange(lines, block.start, Math.min(block.end, lines.length - 1));
+}
+
+/**
+ * The heading section containing the line: from its heading up to the next heading of
+ * the same or a higher level. Lines before the first heading form their own section.
+ * Heading-like lines inside code blocks are ignored.
+ */
+export function getSectionRange(text: string, line: number, settings: SmartSpacingSettings): TextRange {
+	const lines = text.split('\n');
+	const headings = findHeadings(text, settings);
+
+	let start = 0;
+	let level = 0;
+	for (const heading of headings) {
+		if (heading.line > line) break;
+		start = heading.line;
+		level = heading.level;
+	}
+
+	const next = headings.find(heading => heading.line > line && (level === 0 || heading.level <= level));
+	const end = next ? next.line - 1 : lines.length - 1;
+	return getLinesRange(lines, start, Math.max(start, end));
+}
+
+function findHeadings(text: string, settings: SmartSpacingSettings): { line: number; level: number }[] {
+	return findBlocks(text, settings)
+		.filter(block => block.level > 0)
+		.map(block => ({ line: block.start, level: block.level }));
+}
+
+/**
+ * Line spans of the tokenizer's blocks (a trailing newline does not start a new line here)
+ */
+function findBlocks(text: string, settings: SmartSpacingSettings): { start: number; end: number; level: number }[] {
+	const blocks: { start: number; end: number; level: number }[] = [];
+	let line = 0;
+	for (const block of tokenize(text, settings)) {
+		const blockText = block.type === 'paragraph' ? block.tokens.map(token => token.text).join('') : block.text;
+		const lineCount = blockText.replace(/\n$/, '').split('\n').length;
+		// The tokenizer always puts a heading in a paragraph of its own
+		const level = block.type === 'paragraph' ? getHeadingLevel(blockText) : 0;
+		blocks.push({ start: line, end: line + lineCount - 1, level });
+		line += blockText.split('\n').length - 1;
+	}
+	return blocks;
+}
+
+function getLinesRange(lines: string[], start: number, end: number): TextRange {
+	let from = 0;
+	for (let i = 0; i < start; i++) from += lines[i].length + 1;
+	let to = from;
+	for (let i = start; i <= end; i++) to += lines[i].length + (i < end ? 1 : 0);
+	return { from, to };
+}
@@ -0,0 +1,133 @@
+/**
+ * Pick the settings for a note: the global settings, a rule profile and the note's frontmatter overrides
+ */
+
+import { ALL_CJK_SCRIPTS, CjkScript } from './cjk';
+import { matchesGlob } from './glob';
+import type { SmartSpacingSettings } from './processor';
+
+/**
+ * A named profile. Rules it doesn't mention keep the global setting.
+ */
+export interface RuleProfile {
+	name: string;
+	overrides: Partial<SmartSpacingSettings>;
+}
+
+/**
+ * Pick a profile for notes whose path matches a glob (notes/ja/) or that have a tag (#english)
+ */
+export interface ProfileRule {
+	match: string;
+	profile: string;
+}
+
+/**
+ * What is known about a note when choosing its settings
+ */
+export interface NoteInfo {
+	path: string;
+	// Tags including the leading '#'
+	tags: string[];
+	// Value of the smart-spacing frontmatter key
+	frontmatter: unknown;
+}
+
+export interface ResolvedSettings {
+	settings: SmartSpacingSettings;
+	// Name of the applied profile, or null when only the global settings apply
+	profile: string | null;
+	// Whether the note's frontmatter overrides individual rules
+	hasNoteOverrides: boolean;
+}
+
+type BooleanRuleKey = { [K in keyof SmartSpacingSettings]: SmartSpacingSettings[K] extends boolean ? K : never }[keyof SmartSpacingSettings];
+
+/**
+ * Rules that can be overridden by a profile. The editor shows them with their names from the settings tab.
+ */
+export const PROFILE_RULE_KEYS: BooleanRuleKey[] = [
+	'removeInternalBoldSpaces',
+	'spaceBetweenChineseAndBold',
+	'spaceBetweenEnglishAndBold',
+	'spaceBetweenChineseAndItalic',
+	'spaceBetweenChineseAndStrikethrough',
+	'spaceBetweenChineseAndHighlight',
+	'spaceBetweenChineseAndInlineCode',
+	'useZeroWidthSpace',
+	'spaceBetweenChineseAndEnglish',
+	'spaceBetweenChineseAndNumber',
+	'normalizePunctuationSpacing',
+	'skipCodeBlocks',
+	'skipInlineCode',
+	'skipFrontmatter',
+	'skipComments',
+	'skipWikilinks',
+	'skipTags',
+	'skipHtml',
+	'skipLinkUrls',
+	'skipFootnotes',
+	'skipBlockIds',
+];
+
+/**
+ * Work out the settings for a note:
+ * global settings < profile (from frontmatter, else the first matching rule) < frontmatter overrides.
+ *
+ * The frontmatter value may be a profile name (smart-spacing: japanese) or an object
+ * with an optional profile and individual rules (smart-spacing: { profile: japanese, useZeroWidthSpace: true }).
+ */
+export function resolveSettings(
+	base: SmartSpacingSettings,
+	profiles: RuleProfile[],
+	rules: ProfileRule[],
+	note: NoteInfo,
+): ResolvedSettings {
+	const { frontmatter } = note;
+	const frontmatterObject = isRecord(frontmatter) ? frontmatter : null;
+	const requested = typeof frontmatter === 'string' ? frontmatter : frontmatterObject?.profile;
+
+	let profile = typeof requested === 'string' ? profiles.find(p => p.name === requested) : undefined;
+	if (!profile) {
+		const rule = rules.find(r => matchesProfileRule(r, note));
+		profile = rule && profiles.find(p => p.name === rule.profile);
+	}
+
+	const noteOverrides = frontmatterObject ? parseOverrides(frontmatterObject) : {};
+	return {
+		settings: { ...base, ...profile?.overrides, ...noteOverrides },
+		profile: profile?.name ?? null,
+		hasNoteOverrides: Object.keys(noteOverrides).length > 0,
+	};
+}
+
+function matchesProfileRule(rule: ProfileRule, note: NoteInfo): boolean {
+	const match = rule.match.trim();
+	if (!match) return false;
+	if (match.startsWith('#')) {
+		// A tag rule also matches nested tags: #lang matches #lang/ja
+		const tag = match.toLowerCase();
+		return note.tags.some(noteTag => noteTag.toLowerCase() === tag || noteTag.toLowerCase().startsWith(`${tag}/`));
+	}
+	return matchesGlob(note.path, match);
+}
+
+/**
+ * Keep only known rules with a value of the right type, so a typo in frontmatter can't break processing
+ */
+function parseOverrides(values: Record<string, unknown>): Partial<SmartSpacingSettings> {
+	const overrides: Partial<SmartSpacingSettings> = {};
+	for (const key of PROFILE_RULE_KEYS) {
+		const value = values[key];
+		if (typeof value === 'boolean') overrides[key] = value;
+	}
+	const scripts = values.cjkScripts;
+	if (Array.isArray(scripts)) {
+		overrides.cjkScripts = ALL_CJK_SCRIPTS.filter((script: CjkScript) => scripts.includes(script));
+	}
+	return overrides;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,211 @@
+/**
+ * Local history of notes before the plugin formats them
+ *
+ * Every note with snapshots has an entry in a JSON file in the plugin folder holding its
+ * newest versions, so a note can be restored even after the editor's undo history is gone.
+ * The file is named after a hash of the note's path; notes whose paths share a hash
+ * share the file.
+ */
+
+import { App, DataAdapter, FuzzySuggestModal, normalizePath } from 'obsidian';
+import { t, tCount } from './i18n';
+
+export interface Snapshot {
+	// Milliseconds since the epoch
+	time: number;
+	content: string;
+}
+
+interface SnapshotFile {
+	// Snapshots by note path
+	notes: Record<string, Snapshot[]>;
+}
+
+interface LegacySnapshotFile {
+	path: string;
+	snapshots: Snapshot[];
+}
+
+// A note formatted again within this time keeps its older snapshot, so format as you
+// type doesn't push the whole history out while writing
+const MIN_SNAPSHOT_INTERVAL = 60 * 1000;
+
+export class SnapshotStore {
+	// Reads and writes run one after the other, so quick formats can't lose a snapshot
+	private queue: Promise<unknown> = Promise.resolve();
+	// Time of the newest snapshot of each note seen so far, so formatting within the
+	// interval doesn't read the note's file only to find there is nothing to save
+	private readonly newestTimes = new Map<string, number>();
+
+	constructor(
+		private readonly app: App,
+		private readonly folder: string,
+		private readonly getLimit: () => number,
+	) {}
+
+	/**
+	 * Keep the content of a note before it is changed. Unless forced, nothing is saved
+	 * when the newest snapshot is only a moment old.
+	 */
+	save(path: string, content: string, force = false): Promise<void> {
+		return this.enqueue(async () => {
+			const limit = this.getLimit();
+			if (limit <= 0) return;
+			if (!force && this.isRecent(this.newestTimes.get(path))) return;
+			const snapshots = await this.read(path);
+			const newest = snapshots[0];
+			if (newest) this.newestTimes.set(path, newest.time);
+			if (newest && (newest.content === content || (!force && this.isRecent(newest.time)))) return;
+			const time = Date.now();
+			await this.write(path, [{ time, content }, ...snapshots].slice(0, limit));
+			this.newestTimes.set(path, time);
+		});
+	}
+
+	/**
+	 * Snapshots of a note, newest first
+	 */
+	list(path: string): Promise<Snapshot[]> {
+		return this.enqueue(() => this.read(path));
+	}
+
+	/**
+	 * Move the history along with a renamed note
+	 */
+	rename(oldPath: string, newPath: string): Promise<void> {
+		return this.enqueue(async () => {
+			this.newestTimes.delete(oldPath);
+			const snapshots = await this.read(oldPath);
+			if (snapshots.length === 0) return;
+			await this.write(newPath, snapshots);
+			await this.write(oldPath, []);
+			this.newestTimes.set(newPath, snapshots[0].time);
+		});
+	}
+
+	/**
+	 * Forget the history of a deleted note
+	 */
+	delete(path: string): Promise<void> {
+		return this.enqueue(async () => {
+			this.newestTimes.delete(path);
+			await this.write(path, []);
+		});
+	}
+
+	/**
+	 * Forget the history of every note that no longer exists, e.g. one deleted while
+	 * the plugin was disabled
+	 */
+	prune(exists: (path: string) => boolean): Promise<void> {
+		return this.enqueue(async () => {
+			if (!(await this.adapter.exists(this.folder))) return;
+			for (const filePath of (await this.adapter.list(this.folder)).files) {
+				if (!filePath.endsWith('.json')) continue;
+				const notes = await this.readFile(filePath);
+				const kept = Object.fromEntries(Object.entries(notes).filter(([path]) => exists(path)));
+				if (Object.keys(kept).length < Object.keys(notes).length) await this.writeFile(filePath, kept);
+			}
+		});
+	}
+
+	private get adapter(): DataAdapter {
+		return this.app.vault.adapter;
+	}
+
+	private isRecent(time: number | undefined): boolean {
+		return time !== undefined && Date.now() - time < MIN_SNAPSHOT_INTERVAL;
+	}
+
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(task);
+		this.queue = result.catch(error => console.error('Smart Spacing: snapshot failed', error));
+		return result;
+	}
+
+	private async read(path: string): Promise<Snapshot[]> {
+		const notes = await this.readFile(this.getFilePath(path));
+		return Object.prototype.hasOwnProperty.call(notes, path) ? notes[path] : [];
+	}
+
+	/**
+	 * Replace the snapshots of a note, leaving the other notes in its file alone.
+	 * A note without snapshots is removed, and so is a file without notes.
+	 */
+	private async write(path: string, snapshots: Snapshot[]): Promise<void> {
+		const filePath = this.getFilePath(path);
+		const notes = await this.readFile(filePath);
+		if (snapshots.length > 0) {
+			notes[path] = snapshots;
+		} else if (Object.prototype.hasOwnProperty.call(notes, path)) {
+			delete notes[path];
+		} else {
+			return;
+		}
+		await this.writeFile(filePath, notes);
+	}
+
+	private async readFile(filePath: string): Promise<Record<string, Snapshot[]>> {
+		if (!(await this.adapter.exists(filePath))) return {};
+		try {
+			const data = JSON.parse(await this.adapter.read(filePath)) as SnapshotFile | LegacySnapshotFile;
+			if ('notes' in data) return isRecord(data.notes) ? data.notes : {};
+			// Files written before notes could share them held a single note
+			return typeof data.path === 'string' && Array.isArray(data.snapshots) ? { [data.path]: data.snapshots } : {};
+		} catch {
+			return {};
+		}
+	}
+
+	private async writeFile(filePath: string, notes: Record<string, Snapshot[]>): Promise<void> {
+		if (Object.keys(notes).length === 0) {
+			if (await this.adapter.exists(filePath)) await this.adapter.remove(filePath);
+			return;
+		}
+		if (!(await this.adapter.exists(this.folder))) await this.adapter.mkdir(this.folder);
+		const data: SnapshotFile = { notes };
+		await this.adapter.write(filePath, JSON.stringify(data));
+	}
+
+	private getFilePath(path: string): string {
+		return normalizePath(`${this.folder}/${hashPath(path)}.json`);
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, Snapshot[]> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * FNV-1a hash of a note path, as a file name that is safe on every platform
+ */
+function hashPath(path: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < path.length; i++) {
+		hash ^= path.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Pick one of the snapshots of a note
+ */
+export class SnapshotSuggestModal extends FuzzySuggestModal<Snapshot> {
+	constructor(app: App, private readonly snapshots: Snapshot[], private readonly onChoose: (snapshot: Snapshot) => void) {
+		super(app);
+		this.setPlaceholder(t('snapshots.placeholder'));
+	}
+
+	getItems(): Snapshot[] {
+		return this.snapshots;
+	}
+
+	getItemText(snapshot: Snapshot): string {
+		return tCount('snapshots.lines', snapshot.content.split('\n').length, { time: new Date(snapshot.time).toLocaleString() });
+	}
+
+	onChooseItem(snapshot: Snapshot): void {
+		this.onChoose(snapshot);
+	}
+}
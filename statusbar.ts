@@ -0,0 +1,56 @@
+/**
+ * Status bar item with the number of spacing issues in the active note
+ */
+
+import { MarkdownView, debounce } from 'obsidian';
+import type SmartSpacingPlugin from './main';
+import { computeEdits } from './diff';
+import { t, tCount } from './i18n';
+import { processText } from './processor';
+
+/**
+ * What a click on the status bar item does
+ */
+export type StatusBarAction = 'format' | 'issues';
+
+export class SpacingStatusBar {
+	private readonly el: HTMLElement;
+	// Counting processes the whole note, so typing only recounts after a pause
+	private readonly refreshLater = debounce(() => this.refresh(), 500, true);
+
+	constructor(private readonly plugin: SmartSpacingPlugin) {
+		this.el = plugin.addStatusBarItem();
+		this.el.addClass('smart-spacing-status', 'mod-clickable');
+		this.el.addEventListener('click', () => this.onClick());
+
+		const { workspace } = plugin.app;
+		plugin.registerEvent(workspace.on('active-leaf-change', () => this.refresh()));
+		plugin.registerEvent(workspace.on('editor-change', () => this.refreshLater()));
+		workspace.onLayoutReady(() => this.refresh());
+	}
+
+	refresh(): void {
+		const { settings } = this.plugin;
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		this.el.toggle(settings.showStatusBar && !!view?.file);
+		if (!settings.showStatusBar || !view?.file) return;
+
+		const content = view.editor.getValue();
+		const count = computeEdits(content, processText(content, this.plugin.getNoteSettings(view.file))).length;
+		const paused = this.plugin.autoFormatPaused ? t('statusBar.paused') : '';
+		this.el.setText(`${count === 0 ? t('statusBar.none') : tCount('statusBar.count', count)}${paused}`);
+		this.el.setAttribute('aria-label', t(settings.statusBarAction === 'format' ? 'statusBar.clickToFix' : 'statusBar.clickToShow'));
+		this.el.setAttribute('data-tooltip-position', 'top');
+	}
+
+	private onClick(): void {
+		if (this.plugin.settings.statusBarAction === 'issues') {
+			void this.plugin.activateIssuesView();
+			return;
+		}
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view?.file) return;
+		this.plugin.formatEditor(view.editor, true, view.file);
+		this.refresh();
+	}
+}
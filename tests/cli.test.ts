@@ -0,0 +1,71 @@
+import { spawnSync } from 'child_process';
+import { build } from 'esbuild';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// The command line tool is bundled the way npm run build:node does, then run on files in a temp folder
+let dir: string;
+let cli: string;
+
+beforeAll(async () => {
+	dir = mkdtempSync(join(tmpdir(), 'smart-spacing-cli-'));
+	cli = join(dir, 'cli.js');
+	await build({ entryPoints: ['cli.ts'], bundle: true, platform: 'node', format: 'cjs', target: 'node18', outfile: cli, logLevel: 'silent' });
+});
+
+afterAll(() => {
+	rmSync(dir, { recursive: true, force: true });
+});
+
+function run(args: string[], files: Record<string, string> = {}) {
+	for (const [name, text] of Object.entries(files)) writeFileSync(join(dir, name), text);
+	const result = spawnSync(process.execPath, [cli, ...args], { cwd: dir, encoding: 'utf8' });
+	return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('check', () => {
+	it('exits with 0 when nothing needs fixing', () => {
+		const result = run(['check', 'clean.md'], { 'clean.md': '中文 **加粗** 文字\n' });
+		expect(result.status).toBe(0);
+		expect(result.stderr).toContain('No problems in 1 file');
+	});
+
+	it('exits with 1 when fix would change the file', () => {
+		const result = run(['check', 'spacing.md'], { 'spacing.md': '中文**加粗**文字\n' });
+		expect(result.status).toBe(1);
+		expect(result.stdout).toContain('cjk-bold-boundary');
+	});
+
+	it('leaves emphasis problems fix cannot resolve out of the exit code', () => {
+		const files = { 'unmatched.md': '中文**未闭合\n', 'crossing.md': '中文 **粗 ~~删** 线~~ 文字\n' };
+		const quiet = run(['check', 'unmatched.md', 'crossing.md'], files);
+		expect(quiet.status).toBe(0);
+		expect(quiet.stdout).toBe('');
+
+		const warnings = run(['check', '--warnings', 'unmatched.md', 'crossing.md'], files);
+		expect(warnings.status).toBe(0);
+		expect(warnings.stdout).toContain('unmatched.md:1:3  unmatched-emphasis');
+		expect(warnings.stdout).toContain('crossing-emphasis');
+		expect(warnings.stderr).toContain('No problems in 2 files, 5 warnings');
+	});
+
+	it('exits with 1 for a fixable problem next to warnings', () => {
+		const result = run(['check', '--warnings', 'mixed.md'], { 'mixed.md': '中文**加粗**文字\n\n中文**未闭合\n' });
+		expect(result.status).toBe(1);
+		expect(result.stderr).toContain('2 problems in 1 file, 1 warning');
+	});
+
+	it('checks stdin the same way', () => {
+		const result = spawnSync(process.execPath, [cli, 'check', '--stdin'], { cwd: dir, encoding: 'utf8', input: '中文**未闭合\n' });
+		expect(result.status).toBe(0);
+	});
+});
+
+describe('errors', () => {
+	it('exits with 2 for an unknown option or a missing file', () => {
+		expect(run(['check', '--unknown']).status).toBe(2);
+		expect(run(['check', 'missing.md']).status).toBe(2);
+	});
+});
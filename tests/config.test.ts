@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpacingSettings } from '../config';
+import { DEFAULT_SPACING_SETTINGS } from '../processor';
+
+describe('parseSpacingSettings', () => {
+	it('fills in defaults and ignores unknown keys', () => {
+		expect(parseSpacingSettings(undefined)).toEqual(DEFAULT_SPACING_SETTINGS);
+		expect(parseSpacingSettings({ useZeroWidthSpace: true, formatOnSave: true })).toEqual({
+			...DEFAULT_SPACING_SETTINGS,
+			useZeroWidthSpace: true,
+		});
+	});
+
+	it('keeps scripts in their canonical order', () => {
+		expect(parseSpacingSettings({ cjkScripts: ['hangul', 'han'] }).cjkScripts).toEqual(['han', 'hangul']);
+	});
+
+	it('accepts custom rules without a pattern', () => {
+		const rule = { delimiter: 'bold', charClass: 'emoji', action: 'zero-width' };
+		expect(parseSpacingSettings({ customRules: [rule] }).customRules).toEqual([{ ...rule, pattern: '' }]);
+	});
+
+	it('rejects values of the wrong type', () => {
+		expect(() => parseSpacingSettings([])).toThrow('settings must be an object');
+		expect(() => parseSpacingSettings({ skipTags: 'yes' })).toThrow('skipTags must be true or false');
+		expect(() => parseSpacingSettings({ cjkScripts: ['latin'] })).toThrow('unknown script');
+		expect(() => parseSpacingSettings({
+			customRules: [{ delimiter: 'bold', charClass: 'custom', pattern: '[', action: 'space' }],
+		})).toThrow('customRules[0].pattern');
+	});
+});
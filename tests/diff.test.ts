@@ -0,0 +1,51 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { TextEdit, computeEdits, mapOffset, offsetToPosition } from '../diff';
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+	let result = text;
+	for (const edit of [...edits].reverse()) {
+		result = result.slice(0, edit.from) + edit.insert + result.slice(edit.to);
+	}
+	return result;
+}
+
+describe('computeEdits', () => {
+	it('turns added and removed spaces into small edits', () => {
+		expect(computeEdits('中文**粗体**', '中文 **粗体**')).toEqual([{ from: 2, to: 2, insert: ' ' }]);
+		expect(computeEdits('** a **', '**a**')).toEqual([
+			{ from: 2, to: 3, insert: '' },
+			{ from: 4, to: 5, insert: '' },
+		]);
+	});
+
+	it('replaces the differing middle when more than whitespace changed', () => {
+		expect(computeEdits('abc', 'aXc')).toEqual([{ from: 1, to: 2, insert: 'X' }]);
+	});
+
+	it('always produces edits that rebuild the new text', () => {
+		const text = fc.string({ unit: fc.constantFrom('a', '中', '*', ' ', '\u200B', '\n') });
+		fc.assert(fc.property(text, text, (oldText, newText) => {
+			expect(applyEdits(oldText, computeEdits(oldText, newText))).toBe(newText);
+		}));
+	});
+});
+
+describe('mapOffset', () => {
+	it('shifts offsets after an insertion', () => {
+		const edits = computeEdits('中文**粗体**', '中文 **粗体**');
+		expect(mapOffset(edits, 1)).toBe(1);
+		expect(mapOffset(edits, 4)).toBe(5);
+	});
+
+	it('moves offsets inside a deletion to its end', () => {
+		expect(mapOffset([{ from: 2, to: 4, insert: '' }], 3)).toBe(2);
+	});
+});
+
+describe('offsetToPosition', () => {
+	it('counts lines and columns', () => {
+		expect(offsetToPosition('ab\ncd', 4)).toEqual({ line: 1, ch: 1 });
+		expect(offsetToPosition('ab\ncd', 2)).toEqual({ line: 0, ch: 2 });
+	});
+});
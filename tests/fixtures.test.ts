@@ -0,0 +1,39 @@
+/**
+ * Golden tests: every tests/fixtures/<name>/ folder holds a settings.json (overrides of the
+ * default settings) and pairs of <case>.input.md / <case>.expected.md.
+ *
+ * Run `npm test -- -u` to rewrite the expected files after an intended change,
+ * then review the diff before committing.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseSpacingSettings } from '../config';
+import { processText } from '../processor';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+const INPUT_SUFFIX = '.input.md';
+const EXPECTED_SUFFIX = '.expected.md';
+
+for (const name of readdirSync(FIXTURES_DIR).sort()) {
+	const dir = join(FIXTURES_DIR, name);
+	const settingsPath = join(dir, 'settings.json');
+	const overrides: unknown = existsSync(settingsPath) ? JSON.parse(readFileSync(settingsPath, 'utf8')) : {};
+	const settings = parseSpacingSettings(overrides);
+
+	describe(`fixtures/${name}`, () => {
+		const cases = readdirSync(dir).filter(file => file.endsWith(INPUT_SUFFIX)).sort();
+		for (const file of cases) {
+			const caseName = file.slice(0, -INPUT_SUFFIX.length);
+			const expectedPath = join(dir, caseName + EXPECTED_SUFFIX);
+
+			it(caseName, async () => {
+				const input = readFileSync(join(dir, file), 'utf8');
+				const output = processText(input, settings);
+				await expect(output).toMatchFileSnapshot(expectedPath);
+				expect(processText(output, settings)).toBe(output);
+			});
+		}
+	});
+}
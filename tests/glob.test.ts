@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { matchesAnyGlob, matchesGlob, parseGlobList } from '../glob';
+
+describe('matchesGlob', () => {
+	it('matches any number of folders with **', () => {
+		expect(matchesGlob('notes/a.md', 'notes/**/*.md')).toBe(true);
+		expect(matchesGlob('notes/ja/deep/a.md', 'notes/**/*.md')).toBe(true);
+		expect(matchesGlob('other/a.md', 'notes/**/*.md')).toBe(false);
+	});
+
+	it('keeps * and ? within one folder', () => {
+		expect(matchesGlob('a.md', '*.md')).toBe(true);
+		expect(matchesGlob('notes/a.md', '*.md')).toBe(false);
+		expect(matchesGlob('notes/a1.md', 'notes/a?.md')).toBe(true);
+	});
+
+	it('treats a trailing slash as the whole folder', () => {
+		expect(matchesGlob('templates/daily.md', 'templates/')).toBe(true);
+		expect(matchesGlob('templates/sub/daily.md', 'templates/')).toBe(true);
+		expect(matchesGlob('templates.md', 'templates/')).toBe(false);
+	});
+
+	it('escapes regular expression characters', () => {
+		expect(matchesGlob('notes (old)/a.md', 'notes (old)/*')).toBe(true);
+		expect(matchesGlob('notesXmd', 'notes.md')).toBe(false);
+	});
+});
+
+describe('glob lists', () => {
+	it('parses one trimmed pattern per line', () => {
+		expect(parseGlobList(' notes/ \n\n *.md \n')).toEqual(['notes/', '*.md']);
+	});
+
+	it('matches when any pattern does', () => {
+		expect(matchesAnyGlob('daily/a.md', ['notes/', 'daily/'])).toBe(true);
+		expect(matchesAnyGlob('a.md', [])).toBe(false);
+	});
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Language, TRANSLATIONS, detectLanguage, setLanguage, t, tCount } from '../i18n';
+
+const LANGUAGES: Language[] = ['en', 'zh', 'ja'];
+
+function getPlaceholders(text: string): string[] {
+	return (text.match(/\{\w+\}/g) ?? []).sort();
+}
+
+describe('i18n', () => {
+	afterEach(() => setLanguage('en'));
+
+	it('detects the language from Obsidian locales', () => {
+		expect(detectLanguage('zh-cn')).toBe('zh');
+		expect(detectLanguage('zh-TW')).toBe('zh');
+		expect(detectLanguage('ja')).toBe('ja');
+		expect(detectLanguage('en-gb')).toBe('en');
+		expect(detectLanguage('fr')).toBe('en');
+	});
+
+	it('translates every key with the same placeholders as English', () => {
+		for (const language of LANGUAGES) {
+			for (const [key, text] of Object.entries(TRANSLATIONS.en)) {
+				const translated = TRANSLATIONS[language][key as keyof typeof TRANSLATIONS.en];
+				expect(translated, `${language}: ${key}`).not.toBe('');
+				expect(getPlaceholders(translated), `${language}: ${key}`).toEqual(getPlaceholders(text));
+			}
+		}
+	});
+
+	it('fills in placeholders in the current language', () => {
+		expect(t('profileModal.title', { name: 'japanese' })).toBe('Profile: japanese');
+		setLanguage('zh');
+		expect(t('profileModal.title', { name: 'japanese' })).toBe('配置方案：japanese');
+		setLanguage('ja');
+		expect(t('profileModal.title', { name: 'japanese' })).toBe('プロファイル：japanese');
+	});
+
+	it('picks the singular text for a count of one', () => {
+		expect(tCount('statusBar.count', 1)).toBe('1 spacing issue');
+		expect(tCount('statusBar.count', 3)).toBe('3 spacing issues');
+		expect(tCount('issues.count', 0, { note: 'Note' })).toBe('Note: 0 issues');
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { describeIntegrityProblem, findIntegrityProblem } from '../integrity';
+
+const ZWSP = '\u200B';
+
+describe('findIntegrityProblem', () => {
+	it('accepts added and removed spaces, tabs and zero-width spaces', () => {
+		expect(findIntegrityProblem('中文**粗体**\tEnglish', `中文 **粗体**${ZWSP}English`)).toBeNull();
+		expect(findIntegrityProblem('** a **', '**a**')).toBeNull();
+	});
+
+	it('reports the first other change in the original text', () => {
+		expect(findIntegrityProblem('第一行\n中文**粗体**', '第一行\n中文*粗体**')).toEqual({
+			line: 1,
+			column: 3,
+			before: '第一行\n中文**粗体**',
+			after: '第一行\n中文*粗体**',
+		});
+	});
+
+	it('treats line breaks as content', () => {
+		expect(findIntegrityProblem('a\nb', 'a b')?.line).toBe(0);
+	});
+
+	it('reports text that was cut off or appended', () => {
+		expect(findIntegrityProblem('中文', '中')).toMatchObject({ line: 0, column: 1 });
+		expect(findIntegrityProblem('中', '中文')).toMatchObject({ line: 0, column: 1 });
+	});
+});
+
+describe('describeIntegrityProblem', () => {
+	it('uses one-based positions', () => {
+		expect(describeIntegrityProblem({ line: 0, column: 2, before: 'a*b', after: 'ab' }))
+			.toBe('line 1, column 3: "a*b" became "ab"');
+	});
+});
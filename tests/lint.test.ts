@@ -0,0 +1,55 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { lintText } from '../lint';
+import { DEFAULT_SPACING_SETTINGS, processText } from '../processor';
+
+describe('lintText', () => {
+	it('reports a missing space around the characters on both sides', () => {
+		const [diagnostic] = lintText('中文**粗体**', DEFAULT_SPACING_SETTINGS);
+		expect(diagnostic).toMatchObject({
+			rule: 'cjk-bold-boundary',
+			line: 0,
+			column: 1,
+			from: 1,
+			to: 3,
+			fix: { from: 2, to: 2, insert: ' ' },
+		});
+	});
+
+	it('reports spaces inside markers as internal-bold-space', () => {
+		const diagnostics = lintText('~~ 删除 ~~', DEFAULT_SPACING_SETTINGS);
+		expect(diagnostics.map(diagnostic => diagnostic.rule)).toEqual(['internal-bold-space', 'internal-bold-space']);
+	});
+
+	it('reports emphasis problems without a fix', () => {
+		const diagnostics = lintText('第一行\n中文**未闭合', DEFAULT_SPACING_SETTINGS);
+		expect(diagnostics).toHaveLength(1);
+		expect(diagnostics[0]).toMatchObject({ rule: 'unmatched-emphasis', line: 1, column: 2 });
+		expect(diagnostics[0].fix).toBeUndefined();
+	});
+
+	it('treats a lone * in Latin prose as text, but reports one next to CJK', () => {
+		expect(lintText(['用 *args 传参', '用 **kwargs 传参', '2*3=6', '2 *3', '2* 3', 'a**b'].join('\n\n'), DEFAULT_SPACING_SETTINGS)).toEqual([]);
+		const rules = lintText('前面 **未闭合\n\n*注意', DEFAULT_SPACING_SETTINGS).map(diagnostic => diagnostic.rule);
+		expect(rules).toEqual(['unmatched-emphasis', 'unmatched-emphasis']);
+	});
+
+	it('treats a lone == or ~~ as prose, but reports one crossing bold', () => {
+		expect(lintText('总数==10，价格 == 5', DEFAULT_SPACING_SETTINGS)).toEqual([]);
+		const rules = lintText('中文**粗==高**亮==交叉', DEFAULT_SPACING_SETTINGS).map(diagnostic => diagnostic.rule);
+		expect(rules).toEqual(['crossing-emphasis', 'crossing-emphasis', 'crossing-emphasis', 'crossing-emphasis']);
+	});
+
+	it('pairs emphasis markers across the lines of a paragraph', () => {
+		const rules = lintText('一行**开始\n下一行**结束\n\n段落**未闭合', DEFAULT_SPACING_SETTINGS).map(diagnostic => diagnostic.rule);
+		expect(rules).toEqual(['cjk-bold-boundary', 'cjk-bold-boundary', 'unmatched-emphasis']);
+	});
+
+	it('finds nothing in formatted text', () => {
+		const words = fc.constantFrom('中文', 'English', '**粗体**', '*斜体*', '`code`', ' ', '\n');
+		fc.assert(fc.property(fc.array(words, { maxLength: 20 }), parts => {
+			const formatted = processText(parts.join(''), DEFAULT_SPACING_SETTINGS);
+			expect(lintText(formatted, DEFAULT_SPACING_SETTINGS).filter(diagnostic => diagnostic.fix)).toEqual([]);
+		}));
+	});
+});
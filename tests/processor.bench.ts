@@ -0,0 +1,60 @@
+/**
+ * Benchmarks on large synthetic notes: `npm run bench`
+ */
+
+import { bench, describe } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS, processLines, processText } from '../processor';
+
+const PARAGRAPH = [
+	'这是**粗体**和*斜体*混排的English段落，包含`inline code`和==高亮==文字。',
+	'- 列表项~~删除线~~与[[内部链接]]以及 100 个数字',
+	'',
+].join('\n');
+const CODE_BLOCK = '```ts\nconst value = "**不处理**";\n```\n\n';
+
+function syntheticNote(lines: number): string {
+	const parts: string[] = [];
+	for (let line = 0; line < lines; line += 3) {
+		parts.push(line % 60 === 0 ? CODE_BLOCK : PARAGRAPH + '\n');
+	}
+	return parts.join('');
+}
+
+const NOTE_10K = syntheticNote(10_000);
+const NOTE_50K = syntheticNote(50_000);
+const LONG_LINE = '中文**粗体**English'.repeat(20_000);
+const STRAY_BACKTICKS = '中文`English'.repeat(20_000);
+const UNCLOSED_LINKS = '[a](b'.repeat(40_000);
+const UNCLOSED_WIKILINKS = '[[a'.repeat(40_000);
+
+describe('processText', () => {
+	bench('10k lines', () => {
+		processText(NOTE_10K, DEFAULT_SPACING_SETTINGS);
+	});
+
+	bench('50k lines', () => {
+		processText(NOTE_50K, DEFAULT_SPACING_SETTINGS);
+	});
+
+	bench('one 300k character line', () => {
+		processText(LONG_LINE, DEFAULT_SPACING_SETTINGS);
+	});
+
+	bench('unclosed backticks', () => {
+		processText(STRAY_BACKTICKS, DEFAULT_SPACING_SETTINGS);
+	});
+
+	bench('unclosed link destinations', () => {
+		processText(UNCLOSED_LINKS, DEFAULT_SPACING_SETTINGS);
+	});
+
+	bench('unclosed wikilinks', () => {
+		processText(UNCLOSED_WIKILINKS, DEFAULT_SPACING_SETTINGS);
+	});
+});
+
+describe('processLines', () => {
+	bench('one edited line of 50k', () => {
+		processLines(NOTE_50K, DEFAULT_SPACING_SETTINGS, [{ from: 25_000, to: 25_000 }]);
+	});
+});
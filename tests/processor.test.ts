@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS, SmartSpacingSettings, findEmphasisProblems, processLines, processText } from '../processor';
+
+const NOTE = [
+	'第一段**粗体**文字',
+	'第一段 English',
+	'',
+	'```',
+	'代码**不变**',
+	'```',
+	'',
+	'第二段`code`文字',
+	'',
+	'第三段**粗体**',
+].join('\n');
+
+describe('processLines', () => {
+	it('processes the paragraphs that overlap the lines', () => {
+		const formatted = processText(NOTE, DEFAULT_SPACING_SETTINGS).split('\n');
+		const lines = processLines(NOTE, DEFAULT_SPACING_SETTINGS, [{ from: 1, to: 1 }, { from: 9, to: 9 }]).split('\n');
+		expect(lines.slice(0, 2)).toEqual(formatted.slice(0, 2));
+		expect(lines[7]).toBe('第二段`code`文字');
+		expect(lines[9]).toBe(formatted[9]);
+	});
+
+	it('equals processText when every line is dirty', () => {
+		expect(processLines(NOTE, DEFAULT_SPACING_SETTINGS, [{ from: 0, to: 9 }])).toBe(processText(NOTE, DEFAULT_SPACING_SETTINGS));
+	});
+
+	it('keeps code state from the lines before the range', () => {
+		expect(processLines(NOTE, DEFAULT_SPACING_SETTINGS, [{ from: 4, to: 4 }])).toBe(NOTE);
+	});
+
+	it('does nothing without lines', () => {
+		expect(processLines(NOTE, DEFAULT_SPACING_SETTINGS, [])).toBe(NOTE);
+	});
+});
+
+describe('CJK-Latin spacing', () => {
+	const settings: SmartSpacingSettings = { ...DEFAULT_SPACING_SETTINGS, spaceBetweenChineseAndEnglish: true, spaceBetweenChineseAndNumber: true };
+
+	it('separates CJK text from Latin words and numbers on both sides', () => {
+		expect(processText('使用Obsidian写笔记', settings)).toBe('使用 Obsidian 写笔记');
+		expect(processText('共100个文件，约3.14元', settings)).toBe('共 100 个文件，约 3.14 元');
+		expect(processText('Iphone15发布', settings)).toBe('Iphone15 发布');
+	});
+
+	it('covers kana, hangul and characters outside the BMP', () => {
+		expect(processText('日本語とEnglish', settings)).toBe('日本語と English');
+		expect(processText('한국어English', settings)).toBe('한국어 English');
+		expect(processText('𠀀abc', settings)).toBe('𠀀 abc');
+	});
+
+	it('only spaces the scripts that are enabled', () => {
+		const hanOnly = { ...settings, cjkScripts: ['han' as const] };
+		expect(processText('中文English', hanOnly)).toBe('中文 English');
+		expect(processText('かなEnglish', hanOnly)).toBe('かなEnglish');
+	});
+
+	it('has separate toggles for letters and numbers', () => {
+		expect(processText('中文English123中文', { ...settings, spaceBetweenChineseAndNumber: false })).toBe('中文 English123中文');
+		expect(processText('中文123English中文', { ...settings, spaceBetweenChineseAndEnglish: false })).toBe('中文 123English中文');
+	});
+
+	it('leaves existing spaces, punctuation and symbols alone', () => {
+		expect(processText('已经 有 空格 English 的', settings)).toBe('已经 有 空格 English 的');
+		expect(processText('中文，English。（Latin）', settings)).toBe('中文，English。（Latin）');
+		expect(processText('中文@user', settings)).toBe('中文@user');
+	});
+
+	it('never splits protected content', () => {
+		expect(processText('中文`code`中文', { ...settings, spaceBetweenChineseAndInlineCode: false })).toBe('中文`code`中文');
+		expect(processText('中文$x$中文', settings)).toBe('中文$x$中文');
+		expect(processText('[[链接Name]]不变', settings)).toBe('[[链接Name]]不变');
+	});
+});
+
+describe('punctuation spacing', () => {
+	const settings: SmartSpacingSettings = { ...DEFAULT_SPACING_SETTINGS, normalizePunctuationSpacing: true };
+
+	it('removes spaces around full-width punctuation', () => {
+		expect(processText('中文 ， 英文 。', settings)).toBe('中文，英文。');
+		expect(processText('括号 （ 内容 ） 外', settings)).toBe('括号（内容）外');
+	});
+
+	it('attaches half-width punctuation to the CJK text before it', () => {
+		expect(processText('中文 , 英文 .', settings)).toBe('中文, 英文.');
+		expect(processText('English , text .', settings)).toBe('English , text .');
+	});
+
+	it('keeps indentation and line structure', () => {
+		expect(processText('  中文 。', settings)).toBe('  中文。');
+		expect(processText('- 「列表」\n> 「引用」', settings)).toBe('- 「列表」\n> 「引用」');
+	});
+
+	it('runs after CJK-Latin spacing, so the two rules agree', () => {
+		const both = { ...settings, spaceBetweenChineseAndEnglish: true };
+		expect(processText('中文English，中文', both)).toBe('中文 English，中文');
+		expect(processText(processText('使用 Obsidian ，写笔记', both), both)).toBe('使用 Obsidian，写笔记');
+	});
+});
+
+describe('CRLF line endings', () => {
+	it('recognizes line structure and keeps every line ending', () => {
+		const table = '| 名称 | 说明 |\r\n| --- | --- |\r\n| 中文*斜 | 体*中文 |\r\n';
+		expect(processText(table, DEFAULT_SPACING_SETTINGS)).toBe(table);
+		expect(processText('中文**粗体**\r\n***\r\n混合**换行**\n结尾', DEFAULT_SPACING_SETTINGS))
+			.toBe('中文 **粗体**\r\n***\r\n混合 **换行**\n结尾');
+	});
+
+	it('reports emphasis problems at offsets of the original text', () => {
+		const [problem] = findEmphasisProblems('第一行\r\n\r\n中文**未闭合', DEFAULT_SPACING_SETTINGS);
+		expect(problem).toMatchObject({ type: 'unmatched-emphasis', from: 9, to: 11 });
+	});
+});
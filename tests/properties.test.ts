@@ -0,0 +1,86 @@
+/**
+ * Property-based tests: invariants that must hold for any input and any settings
+ */
+
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { ALL_CJK_SCRIPTS } from '../cjk';
+import { DEFAULT_SPACING_SETTINGS, SmartSpacingSettings, processText } from '../processor';
+
+// Pieces that exercise the state machines: CJK and Latin text, every delimiter, punctuation and line structure
+const FRAGMENTS = [
+	'中文', '粗体', 'かな', '한국', 'English', 'word', '123', '😀',
+	'**', '*', '__', '_', '~~', '==', '`', '$', '\\',
+	' ', '  ', '\u200B', '\t', '\n', '\n\n',
+	'，', '。', '！', ',', '.', '(', ')', '「', '」',
+	'# ', '- ', '1. ', '> ', '[!note] ', '[ ] ', '|', '| --- |', '===', '[[', ']]', '[', '](', '#tag', '%%', '<b>', '</b>', '[^1]', ' ^id',
+];
+
+const markdown = fc.array(fc.constantFrom(...FRAGMENTS), { maxLength: 40 }).map(parts => parts.join(''));
+
+const BOOLEAN_KEYS = (Object.keys(DEFAULT_SPACING_SETTINGS) as (keyof SmartSpacingSettings)[])
+	.filter(key => typeof DEFAULT_SPACING_SETTINGS[key] === 'boolean');
+
+const settingsArbitrary: fc.Arbitrary<SmartSpacingSettings> = fc.record({
+	...Object.fromEntries(BOOLEAN_KEYS.map(key => [key, fc.boolean()])),
+	cjkScripts: fc.subarray(ALL_CJK_SCRIPTS),
+}).map(values => ({ ...DEFAULT_SPACING_SETTINGS, ...values }));
+
+// Protected content: anything without the characters that would end the span or block
+const codeContent = fc.array(fc.constantFrom(...FRAGMENTS.filter(part => !part.includes('`'))), { minLength: 1, maxLength: 15 })
+	.map(parts => parts.join(''));
+const inlineContent = fc.array(fc.constantFrom(...FRAGMENTS.filter(part => !/[`$\n\\]/.test(part))), { minLength: 1, maxLength: 10 })
+	.map(parts => parts.join('').trim())
+	.filter(content => content.length > 0);
+
+// Spacing the rules may add or remove; line breaks are content too
+function stripSpaces(text: string): string {
+	return text.replace(/[^\S\n]|\u200B/g, '');
+}
+
+describe('processText properties', () => {
+	it('is idempotent: formatting twice equals formatting once', () => {
+		fc.assert(fc.property(markdown, settingsArbitrary, (text, settings) => {
+			const once = processText(text, settings);
+			expect(processText(once, settings)).toBe(once);
+		}), { numRuns: 2000 });
+	});
+
+	it('never changes anything but spaces', () => {
+		fc.assert(fc.property(markdown, settingsArbitrary, (text, settings) => {
+			expect(stripSpaces(processText(text, settings))).toBe(stripSpaces(text));
+		}), { numRuns: 2000 });
+	});
+
+	it('does nothing when every rule is off', () => {
+		const rulesOff = BOOLEAN_KEYS.filter(key => !key.startsWith('skip')).map(key => [key, false] as const);
+		const settings: SmartSpacingSettings = { ...DEFAULT_SPACING_SETTINGS, ...Object.fromEntries(rulesOff) };
+		fc.assert(fc.property(markdown, text => {
+			expect(processText(text, settings)).toBe(text);
+		}));
+	});
+
+	it('keeps fenced code blocks byte-identical', () => {
+		fc.assert(fc.property(markdown, codeContent, markdown, (before, code, after) => {
+			const block = '```\n' + code + '\n```';
+			const text = `${before}\n\n${block}\n\n${after}`;
+			expect(processText(text, DEFAULT_SPACING_SETTINGS)).toContain(`\n${block}\n`);
+		}), { numRuns: 500 });
+	});
+
+	it('keeps math blocks byte-identical', () => {
+		fc.assert(fc.property(markdown, codeContent.filter(code => !code.includes('$')), markdown, (before, math, after) => {
+			const block = '$$\n' + math + '\n$$';
+			const text = `${before}\n\n${block}\n\n${after}`;
+			expect(processText(text, DEFAULT_SPACING_SETTINGS)).toContain(`\n${block}\n`);
+		}), { numRuns: 500 });
+	});
+
+	it('keeps inline code and inline math byte-identical', () => {
+		const wrapper = fc.constantFrom('中文', 'text', '**粗体**', '');
+		fc.assert(fc.property(wrapper, inlineContent, wrapper, fc.constantFrom('`', '$'), (before, content, after, marker) => {
+			const span = `${marker}${content}${marker}`;
+			expect(processText(`${before}${span}${after}`, DEFAULT_SPACING_SETTINGS)).toContain(span);
+		}), { numRuns: 500 });
+	});
+});
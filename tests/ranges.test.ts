@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS } from '../processor';
+import { getParagraphRange, getSectionRange } from '../ranges';
+
+const NOTE = [
+	'# 标题',
+	'第一段',
+	'第一段续',
+	'',
+	'## 小节',
+	'```',
+	'# 不是标题',
+	'```',
+	'',
+	'# 下一章',
+].join('\n');
+
+function slice(range: { from: number; to: number }): string {
+	return NOTE.slice(range.from, range.to);
+}
+
+describe('getParagraphRange', () => {
+	it('covers every line of the paragraph', () => {
+		expect(slice(getParagraphRange(NOTE, 2, DEFAULT_SPACING_SETTINGS))).toBe('第一段\n第一段续');
+	});
+
+	it('keeps a heading on its own', () => {
+		expect(slice(getParagraphRange(NOTE, 0, DEFAULT_SPACING_SETTINGS))).toBe('# 标题');
+	});
+
+	it('covers a whole code block', () => {
+		expect(slice(getParagraphRange(NOTE, 6, DEFAULT_SPACING_SETTINGS))).toBe('```\n# 不是标题\n```');
+	});
+});
+
+describe('getSectionRange', () => {
+	it('runs up to the next heading of the same level', () => {
+		expect(slice(getSectionRange(NOTE, 2, DEFAULT_SPACING_SETTINGS))).toBe(NOTE.slice(0, NOTE.indexOf('\n# 下一章')));
+	});
+
+	it('ignores headings inside code blocks', () => {
+		expect(slice(getSectionRange(NOTE, 6, DEFAULT_SPACING_SETTINGS))).toBe('## 小节\n```\n# 不是标题\n```\n');
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS } from '../processor';
+import { NoteInfo, ProfileRule, RuleProfile, resolveSettings } from '../resolve';
+
+const PROFILES: RuleProfile[] = [
+	{ name: 'japanese', overrides: { useZeroWidthSpace: true, spaceBetweenChineseAndItalic: false } },
+	{ name: 'english', overrides: { spaceBetweenEnglishAndBold: true } },
+];
+
+const RULES: ProfileRule[] = [
+	{ match: 'notes/ja/', profile: 'japanese' },
+	{ match: '#english', profile: 'english' },
+	{ match: '#missing', profile: 'deleted' },
+];
+
+function note(path: string, frontmatter: unknown = undefined, tags: string[] = []): NoteInfo {
+	return { path, tags, frontmatter };
+}
+
+function resolve(info: NoteInfo) {
+	return resolveSettings(DEFAULT_SPACING_SETTINGS, PROFILES, RULES, info);
+}
+
+describe('resolveSettings', () => {
+	it('uses the global settings when nothing matches', () => {
+		expect(resolve(note('notes/zh/a.md'))).toEqual({ settings: DEFAULT_SPACING_SETTINGS, profile: null, hasNoteOverrides: false });
+	});
+
+	it('applies the first rule matching the path or a tag', () => {
+		expect(resolve(note('notes/ja/a.md')).settings.useZeroWidthSpace).toBe(true);
+		expect(resolve(note('a.md', undefined, ['#English/US'])).profile).toBe('english');
+		expect(resolve(note('notes/ja/a.md', undefined, ['#english'])).profile).toBe('japanese');
+	});
+
+	it('ignores a rule whose profile no longer exists', () => {
+		expect(resolve(note('a.md', undefined, ['#missing'])).profile).toBeNull();
+	});
+
+	it('lets the frontmatter pick a profile by name, before any rule', () => {
+		expect(resolve(note('notes/ja/a.md', 'english')).profile).toBe('english');
+		expect(resolve(note('notes/ja/a.md', { profile: 'english' })).profile).toBe('english');
+		expect(resolve(note('notes/ja/a.md', 'unknown')).profile).toBe('japanese');
+	});
+
+	it('applies frontmatter overrides on top of the profile', () => {
+		const resolved = resolve(note('notes/ja/a.md', { useZeroWidthSpace: false, spaceBetweenChineseAndEnglish: true }));
+		expect(resolved.profile).toBe('japanese');
+		expect(resolved.hasNoteOverrides).toBe(true);
+		expect(resolved.settings).toEqual({
+			...DEFAULT_SPACING_SETTINGS,
+			spaceBetweenChineseAndItalic: false,
+			useZeroWidthSpace: false,
+			spaceBetweenChineseAndEnglish: true,
+		});
+	});
+
+	it('combines a profile picked in frontmatter with overrides next to it', () => {
+		const resolved = resolve(note('a.md', { profile: 'english', spaceBetweenEnglishAndBold: false, cjkScripts: ['kana', 'han'] }));
+		expect(resolved.profile).toBe('english');
+		expect(resolved.settings.spaceBetweenEnglishAndBold).toBe(false);
+		expect(resolved.settings.cjkScripts).toEqual(['han', 'kana']);
+	});
+
+	it('drops unknown keys and values of the wrong type', () => {
+		const resolved = resolve(note('a.md', { useZeroWidthSpace: 'yes', customRules: [], typo: true }));
+		expect(resolved).toEqual({ settings: DEFAULT_SPACING_SETTINGS, profile: null, hasNoteOverrides: false });
+	});
+});
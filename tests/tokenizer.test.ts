@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS, SmartSpacingSettings, processText } from '../processor';
+import { InlineTokenType, tokenize } from '../tokenizer';
+
+// CJK-Latin spacing touches every "中文Latin" pair, so anything left unspaced was protected
+const SETTINGS: SmartSpacingSettings = { ...DEFAULT_SPACING_SETTINGS, spaceBetweenChineseAndEnglish: true };
+
+type SkipKey = { [K in keyof SmartSpacingSettings]: K extends `skip${string}` ? K : never }[keyof SmartSpacingSettings];
+
+// Each protection with a note it covers, and that note once the protection is turned off.
+// Block IDs are Latin only, so no rule could change one; their tokens are checked below.
+const PROTECTED: [SkipKey, string, string][] = [
+	['skipFrontmatter', '---\ntitle: 中文English\n---\n正文', '---\ntitle: 中文 English\n---\n正文'],
+	['skipWikilinks', '见[[笔记Name|别名Alias]]和![[图片Image]]', '见[[笔记 Name|别名 Alias]]和![[图片 Image]]'],
+	['skipTags', '标签 #中文Tag 后', '标签 #中文 Tag 后'],
+	['skipComments', '文字%% 注释Comment %%\n\n%%\n块注释Block\n%%', '文字%% 注释 Comment %%\n\n%%\n块注释 Block\n%%'],
+	['skipHtml', '<span title="中文Title">文字</span>', '<span title="中文 Title">文字</span>'],
+	['skipLinkUrls', '[文字](https://example.com/中文Path)\n\n[id]: https://example.com/中文Path', '[文字](https://example.com/中文 Path)\n\n[id]: https://example.com/中文 Path'],
+	['skipFootnotes', '脚注[^中文Note]引用', '脚注[^中文 Note]引用'],
+	['skipInlineCode', '中文 `代码Code` 中文', '中文 `代码 Code` 中文'],
+	['skipCodeBlocks', '~~~\n代码Code\n~~~', '~~~\n代码 Code\n~~~'],
+];
+
+function inlineTypes(text: string, settings: SmartSpacingSettings): InlineTokenType[] {
+	return tokenize(text, settings).flatMap(block => block.type === 'paragraph' ? block.tokens.map(token => token.type) : []);
+}
+
+describe('protected syntax', () => {
+	for (const [key, note, unprotected] of PROTECTED) {
+		it(`${key} keeps the syntax unchanged`, () => {
+			expect(processText(note, SETTINGS)).toBe(note);
+			expect(processText(note, { ...SETTINGS, [key]: false })).toBe(unprotected);
+		});
+	}
+
+	it('still edits the text around protected syntax', () => {
+		expect(processText('中文English[[笔记]]', SETTINGS)).toBe('中文 English[[笔记]]');
+		expect(processText('文字English[链接](https://example.com)', SETTINGS)).toBe('文字 English[链接](https://example.com)');
+		expect(processText('[^1]: 定义Text', SETTINGS)).toBe('[^1]: 定义 Text');
+	});
+
+	it('edits footnote definitions like prose when footnotes are not skipped', () => {
+		expect(processText('[^1]: 定义Text', { ...SETTINGS, skipFootnotes: false })).toBe('[^1]: 定义 Text');
+	});
+
+	it('requires a tag to start a word', () => {
+		expect(inlineTypes('标签 #中文', SETTINGS)).toContain('tag');
+		expect(inlineTypes('标签#中文', SETTINGS)).not.toContain('tag');
+	});
+
+	it('only treats a block ID at the end of a line as protected', () => {
+		expect(inlineTypes('结尾 ^block-id', SETTINGS)).toContain('block-id');
+		expect(inlineTypes('结尾 ^block-id', { ...SETTINGS, skipBlockIds: false })).not.toContain('block-id');
+		expect(inlineTypes('中间 ^block-id 文字', SETTINGS)).not.toContain('block-id');
+	});
+
+	it('keeps escaped markers as text', () => {
+		expect(processText('转义\\*\\*不是粗体\\*\\*中文', DEFAULT_SPACING_SETTINGS)).toBe('转义\\*\\*不是粗体\\*\\*中文');
+	});
+});
+
+describe('links', () => {
+	function tokenTexts(text: string, type: InlineTokenType): string[] {
+		return tokenize(text, SETTINGS).flatMap(block => block.type === 'paragraph'
+			? block.tokens.filter(token => token.type === type).map(token => token.text)
+			: []);
+	}
+
+	it('finds a link destination after unclosed ones', () => {
+		expect(tokenTexts('[a](b [c](d) [e](f(g)h)', 'link-url')).toEqual(['](d)', '](f(g)h)']);
+		expect(tokenTexts('[a](b\n[c](d)', 'link-url')).toEqual(['](d)']);
+		expect(tokenTexts('[a](b\\) c)', 'link-url')).toEqual(['](b\\) c)']);
+	});
+
+	it('finds a wikilink after unclosed ones', () => {
+		expect(tokenTexts('[[a [[b]] ![[c]] [[]] [[d\ne]]', 'wikilink')).toEqual(['[[a [[b]]', '![[c]]']);
+	});
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPACING_SETTINGS } from '../processor';
+import { convertZeroWidthSpaces } from '../zerowidth';
+
+const ZWSP = '\u200B';
+
+describe('convertZeroWidthSpaces', () => {
+	it('removes zero-width spaces next to markers', () => {
+		expect(convertZeroWidthSpaces(`中文${ZWSP}**粗体**${ZWSP}中文`, 'remove', DEFAULT_SPACING_SETTINGS)).toBe('中文**粗体**中文');
+	});
+
+	it('turns them into regular spaces', () => {
+		expect(convertZeroWidthSpaces(`中文${ZWSP}\`code\``, 'to-space', DEFAULT_SPACING_SETTINGS)).toBe('中文 `code`');
+	});
+
+	it('drops them instead when a space is already next to them', () => {
+		expect(convertZeroWidthSpaces(`b ${ZWSP}\`x\``, 'to-space', DEFAULT_SPACING_SETTINGS)).toBe('b `x`');
+		expect(convertZeroWidthSpaces(`中文**粗体**${ZWSP} 中文`, 'to-space', DEFAULT_SPACING_SETTINGS)).toBe('中文**粗体** 中文');
+	});
+
+	it('turns spaces between CJK text and markers into zero-width spaces', () => {
+		expect(convertZeroWidthSpaces('中文 **粗体** 中文', 'from-space', DEFAULT_SPACING_SETTINGS)).toBe(`中文${ZWSP}**粗体**${ZWSP}中文`);
+		expect(convertZeroWidthSpaces('English **bold**', 'from-space', DEFAULT_SPACING_SETTINGS)).toBe('English **bold**');
+	});
+
+	it('ignores a lone = ~ * or _ in prose', () => {
+		const text = '总数 = 10，价格 ~ 5，乘 * 2，下划线 _ 号';
+		expect(convertZeroWidthSpaces(text, 'from-space', DEFAULT_SPACING_SETTINGS)).toBe(text);
+		const zeroWidth = text.replace(/ /g, ZWSP);
+		expect(convertZeroWidthSpaces(zeroWidth, 'remove', DEFAULT_SPACING_SETTINGS)).toBe(zeroWidth);
+		expect(convertZeroWidthSpaces(zeroWidth, 'to-space', DEFAULT_SPACING_SETTINGS)).toBe(zeroWidth);
+	});
+
+	it('pairs emphasis past a spaced operator', () => {
+		expect(convertZeroWidthSpaces('x * y 中文 *a* 中', 'from-space', DEFAULT_SPACING_SETTINGS)).toBe(`x * y 中文${ZWSP}*a*${ZWSP}中`);
+	});
+
+	it('converts spaces next to paired strikethrough and highlight markers', () => {
+		expect(convertZeroWidthSpaces('中文 ==高亮== 中文 = 10', 'from-space', DEFAULT_SPACING_SETTINGS))
+			.toBe(`中文${ZWSP}==高亮==${ZWSP}中文 = 10`);
+		expect(convertZeroWidthSpaces(`中文${ZWSP}~~删除~~${ZWSP}中文`, 'remove', DEFAULT_SPACING_SETTINGS)).toBe('中文~~删除~~中文');
+	});
+
+	it('leaves zero-width spaces elsewhere and in code alone', () => {
+		const text = `中${ZWSP}文\n\n\`\`\`\n中文${ZWSP}**粗体**\n\`\`\``;
+		expect(convertZeroWidthSpaces(text, 'remove', DEFAULT_SPACING_SETTINGS)).toBe(text);
+	});
+});
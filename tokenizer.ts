@@ -0,0 +1,565 @@
+/**
+ * Markdown-aware tokenizer for Smart Spacing Plugin
+ *
+ * Splits a document into blocks (paragraphs, table rows, code blocks, math blocks, thematic breaks,
+ * blank lines) and paragraphs into inline tokens, so the spacing fixers only ever edit prose text
+ * and never need placeholder substitution. Line prefixes (quote, callout, list and heading markers)
+ * and table pipes are tokens of their own that are never edited.
+ */
+
+import type { SmartSpacingSettings } from './processor';
+
+/**
+ * Inline token types. Only 'text' (and 'code' when inline code is not skipped) is editable.
+ */
+export type InlineTokenType =
+	| 'text'
+	| 'code'
+	| 'math'
+	| 'url'
+	| 'escape'
+	| 'quote-marker'
+	| 'callout-marker'
+	| 'list-marker'
+	| 'heading-marker'
+	| 'table-pipe'
+	| 'wikilink'
+	| 'tag'
+	| 'comment'
+	| 'html'
+	| 'link-url'
+	| 'footnote'
+	| 'block-id'
+	| 'break';
+
+export interface InlineToken {
+	type: InlineTokenType;
+	text: string;
+}
+
+/**
+ * A block of the document. Concatenating the text of all blocks (and all tokens of
+ * paragraph blocks) always reproduces the original document exactly.
+ */
+export type Block =
+	| { type: 'paragraph'; tokens: InlineToken[] }
+	| { type: VerbatimBlockType; text: string };
+
+/**
+ * Blocks that are preserved byte-identical
+ */
+export type VerbatimBlockType =
+	| 'code'
+	| 'math'
+	| 'comment'
+	| 'frontmatter'
+	| 'thematic-break'
+	| 'heading-underline'
+	| 'table-delimiter'
+	| 'blank';
+
+/**
+ * An open fenced code block, $$ math block or %% comment block
+ */
+interface OpenFence {
+	type: 'code' | 'math' | 'comment';
+	char: string;
+	length: number;
+	// Blockquote depth the fence was opened at; the fence ends with the quote
+	depth: number;
+}
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s/;
+const HEADING_REGEX = /^\s{0,3}#{1,6}(?:\s|$)/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([*_-])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PREFIX_REGEX = /^(?:\s{0,3}>\s?)+/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const TABLE_DELIMITER_REGEX = /^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)*[ \t]*:?-+:?[ \t]*\|?[ \t]*$/;
+
+// Line prefixes that are Markdown structure, in the order they appear: quote markers,
+// a callout type, a list marker with an optional task checkbox, a heading marker.
+// Each includes the whitespace after it, so the fixers never join it to the text.
+const QUOTE_MARKER_REGEX = /(?:[ \t]{0,3}>[ \t]?)+/y;
+const CALLOUT_MARKER_REGEX = /\[![^\]\s]+\][+-]?[ \t]*/y;
+const LIST_MARKER_REGEX = /[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]+\[.\])?(?:[ \t]+|(?=\n|$))/y;
+const HEADING_MARKER_REGEX = /[ \t]{0,3}#{1,6}(?:[ \t]+|(?=\n|$))/y;
+
+/**
+ * Split a document into blocks
+ */
+export function tokenize(text: string, settings: SmartSpacingSettings): Block[] {
+	const lines = text.split('\n');
+	const blocks: Block[] = [];
+	let paragraph = '';
+	let paragraphDepth = 0;
+	let fence: OpenFence | null = null;
+	// Blockquote depth of the pipe table the previous line belongs to
+	let tableDepth: number | null = null;
+	let delimiterLine = -1;
+	let inList = false;
+	let previousBlank = true;
+	let previousIndentedCode = false;
+	const frontmatterEnd = settings.skipFrontmatter ? findFrontmatterEnd(lines) : -1;
+
+	const flushParagraph = (isTableRow = false) => {
+		if (paragraph) {
+			blocks.push({ type: 'paragraph', tokens: tokenizeInline(paragraph, settings, isTableRow) });
+			paragraph = '';
+		}
+	};
+
+	const pushVerbatim = (type: VerbatimBlockType, raw: string) => {
+		flushParagraph();
+		const last = blocks[blocks.length - 1];
+		if (last && last.type === type) {
+			last.text += raw;
+		} else {
+			blocks.push({ type, text: raw });
+		}
+	};
+
+	lines.forEach((line, index) => {
+		const raw = index < lines.length - 1 ? line + '\n' : line;
+
+		// YAML frontmatter at the very start of the note
+		if (index <= frontmatterEnd) {
+			pushVerbatim('frontmatter', raw);
+			return;
+		}
+
+		const prefix = QUOTE_PREFIX_REGEX.exec(line)?.[0] ?? '';
+		const content = line.slice(prefix.length);
+		const depth = (prefix.match(/>/g) ?? []).length;
+		const trim = content.trim();
+
+		if (index === delimiterLine) {
+			pushVerbatim('table-delimiter', raw);
+			return;
+		}
+
+		// Inside a fenced block: look for the matching closing fence
+		if (fence && depth >= fence.depth) {
+			const type = fence.type;
+			if (isClosingFence(fence, trim)) {
+				fence = null;
+			}
+			pushVerbatim(type, raw);
+			return;
+		}
+		// A fence opened inside a blockquote ends with the blockquote
+		fence = null;
+
+		// Handle Code Blocks (``` or ~~~, closed by a fence of the same character and at least the same length)
+		const fenceMatch = settings.skipCodeBlocks ? FENCE_REGEX.exec(content) : null;
+		if (fenceMatch && !(fenceMatch[1][0] === '`' && fenceMatch[2].includes('`'))) {
+			fence = { type: 'code', char: fenceMatch[1][0], length: fenceMatch[1].length, depth };
+			pushVerbatim('code', raw);
+			previousBlank = false;
+			return;
+		}
+
+		// Handle LaTeX Blocks ($$)
+		if (trim.startsWith('$$')) {
+			// Check for single line $$ ... $$ (e.g. $$ E=mc^2 $$)
+			// If not single line, open a block
+			if (!/^\$\$.*\$\$$/.test(trim) || trim === '$$') {
+				fence = { type: 'math', char: '$', length: 2, depth };
+			}
+			pushVerbatim('math', raw);
+			previousBlank = false;
+			return;
+		}
+
+		// Handle Obsidian comment blocks (%% spanning several lines %%)
+		if (settings.skipComments && trim.startsWith('%%') && !trim.slice(2).includes('%%')) {
+			fence = { type: 'comment', char: '%', length: 2, depth };
+			pushVerbatim('comment', raw);
+			previousBlank = false;
+			return;
+		}
+
+		if (!trim) {
+			pushVerbatim('blank', raw);
+			tableDepth = null;
+			previousBlank = true;
+			previousIndentedCode = false;
+			return;
+		}
+
+		// Indented code blocks (4 spaces or a tab) can't interrupt a paragraph and are list content inside lists
+		if (settings.skipCodeBlocks && !inList && (previousBlank || previousIndentedCode) && /^(?: {4}|\t)/.test(content)) {
+			pushVerbatim('code', raw);
+			previousBlank = false;
+			previousIndentedCode = true;
+			return;
+		}
+
+		// Setext heading underlines (=== or --- below a paragraph line) end the heading
+		if (paragraph && depth === paragraphDepth && tableDepth === null && SETEXT_UNDERLINE_REGEX.test(content)) {
+			pushVerbatim('heading-underline', raw);
+			previousBlank = false;
+			previousIndentedCode = false;
+			return;
+		}
+
+		// Thematic breaks (***, * * *, ___) are not emphasis; checked first since "* * *" also looks like a list item
+		if (THEMATIC_BREAK_REGEX.test(content)) {
+			pushVerbatim('thematic-break', raw);
+			inList = false;
+			tableDepth = null;
+			previousBlank = false;
+			previousIndentedCode = false;
+			return;
+		}
+
+		const isListItem = LIST_ITEM_REGEX.test(content);
+		if (isListItem) {
+			inList = true;
+		} else if (!/^\s/.test(content)) {
+			inList = false;
+		}
+		const isHeading = HEADING_REGEX.test(content);
+
+		// Pipe tables: a header row followed by a delimiter row with as many cells. Every row is
+		// a paragraph of its own whose cells are fixed separately; the delimiter row is kept as is.
+		if (tableDepth !== null && (depth !== tableDepth || isListItem || isHeading)) {
+			tableDepth = null;
+		}
+		if (tableDepth === null && isTableHeader(content, lines[index + 1], depth)) {
+			tableDepth = depth;
+			flushParagraph();
+			paragraph = raw;
+			flushParagraph(true);
+			delimiterLine = index + 1;
+			previousBlank = false;
+			previousIndentedCode = false;
+			return;
+		}
+		if (tableDepth !== null) {
+			flushParagraph();
+			paragraph = raw;
+			flushParagraph(true);
+			previousBlank = false;
+			previousIndentedCode = false;
+			return;
+		}
+
+		// List items, headings and quote depth changes start a new paragraph; headings are a single line
+		if (isListItem || isHeading || depth !== paragraphDepth) {
+			flushParagraph();
+		}
+		paragraph += raw;
+		paragraphDepth = depth;
+		previousBlank = false;
+		previousIndentedCode = false;
+		if (isHeading) {
+			flushParagraph();
+		}
+	});
+
+	flushParagraph();
+	return blocks;
+}
+
+/**
+ * Level of an ATX heading line (1-6), or 0 if the line is not a heading
+ */
+export function getHeadingLevel(line: string): number {
+	const match = /^\s{0,3}(#{1,6})(?:\s|$)/.exec(line);
+	return match ? match[1].length : 0;
+}
+
+/**
+ * Whether a line starts a pipe table: it has a pipe, and the next line at the same quote
+ * depth is a delimiter row (| --- | :-: |) with the same number of cells
+ */
+function isTableHeader(content: string, nextLine: string | undefined, depth: number): boolean {
+	if (nextLine === undefined || !content.includes('|')) return false;
+	const nextPrefix = QUOTE_PREFIX_REGEX.exec(nextLine)?.[0] ?? '';
+	const delimiter = nextLine.slice(nextPrefix.length);
+	if ((nextPrefix.match(/>/g) ?? []).length !== depth || !TABLE_DELIMITER_REGEX.test(delimiter)) return false;
+	return countTableCells(content) === countTableCells(delimiter);
+}
+
+function countTableCells(row: string): number {
+	const inner = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+	return inner.split(/(?<!\\)\|/).length;
+}
+
+function isClosingFence(fence: OpenFence, trim: string): boolean {
+	if (fence.type === 'math') return trim.startsWith('$$');
+	if (fence.type === 'comment') return trim.includes('%%');
+	return trim.length >= fence.length && trim === fence.char.repeat(trim.length);
+}
+
+/**
+ * Find the closing line of a YAML frontmatter block ("---" ... "---" or "..."), or -1
+ */
+function findFrontmatterEnd(lines: string[]): number {
+	if (lines[0]?.trimEnd() !== '---') return -1;
+	for (let i = 1; i < lines.length; i++) {
+		const trim = lines[i].trimEnd();
+		if (trim === '---' || trim === '...') return i;
+	}
+	return -1;
+}
+
+/**
+ * Split paragraph text into inline tokens.
+ * Code spans, inline math and comments may span soft line breaks within the paragraph.
+ * In a table row, every pipe (with the cell padding around it) is a token of its own.
+ */
+function tokenizeInline(text: string, settings: SmartSpacingSettings, isTableRow: boolean): InlineToken[] {
+	const tokens: InlineToken[] = [];
+	let i = 0;
+	let textStart = 0;
+	let atLineStart = true;
+	// Backtick run lengths without a closing run after the given offset, so stray
+	// backticks don't make every later run scan to the end of the paragraph again
+	const unclosedBackticks = new Map<number, number>();
+	// First ']' or line break after the last "[[" seen; it stays valid until the scan passes
+	// it, so an unclosed "[[" doesn't make every later one scan to the end of the line
+	let wikilinkStop = -1;
+	// Matching ')' of every '(' on the paragraph's lines, found in one pass when first needed
+	let closingParentheses: Map<number, number> | null = null;
+	const lastCommentEnd = text.lastIndexOf('-->');
+
+	const pushToken = (type: InlineTokenType, end: number) => {
+		if (i > textStart) {
+			tokens.push({ type: 'text', text: text.slice(textStart, i) });
+		}
+		tokens.push({ type, text: text.slice(i, end) });
+		i = end;
+		textStart = end;
+	};
+
+	while (i < text.length) {
+		if (atLineStart) {
+			atLineStart = false;
+			const lineStart = i;
+			// Line structure ("> [!note] ", "> - [ ] ", "## ") is never edited, so the fixers see
+			// the same text as without the prefix and lists and headings can't be broken
+			const quoteMarker = matchAt(QUOTE_MARKER_REGEX, text, i);
+			if (quoteMarker) {
+				pushToken('quote-marker', i + quoteMarker.length);
+				const calloutMarker = matchAt(CALLOUT_MARKER_REGEX, text, i);
+				if (calloutMarker) pushToken('callout-marker', i + calloutMarker.length);
+			}
+			const listMarker = matchAt(LIST_MARKER_REGEX, text, i);
+			if (listMarker) pushToken('list-marker', i + listMarker.length);
+			const headingMarker = matchAt(HEADING_MARKER_REGEX, text, i);
+			if (headingMarker) pushToken('heading-marker', i + headingMarker.length);
+			// Footnote definitions ("[^1]: ") and link reference definitions ("[id]: https://...")
+			const footnoteDefinition = settings.skipFootnotes ? matchAt(/[ \t]*\[\^[^\]\s]+\]:/y, text, i) : null;
+			if (footnoteDefinition) pushToken('footnote', i + footnoteDefinition.length);
+			// A footnote definition is never a link definition, even when footnotes are not skipped
+			const linkDefinition = settings.skipLinkUrls && !footnoteDefinition ? matchAt(/[ \t]*\[(?!\^)[^\]\n]+\]:[ \t]*\S+/y, text, i) : null;
+			if (linkDefinition) pushToken('link-url', i + linkDefinition.length);
+			if (i > lineStart) continue;
+		}
+
+		const char = text[i];
+
+		if (char === '\n') {
+			pushToken('break', i + 1);
+			atLineStart = true;
+			continue;
+		}
+
+		// Backslash escapes (\* \_ \` \$ ...) are never delimiters
+		if (char === '\\' && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+			pushToken('escape', i + 2);
+			continue;
+		}
+
+		// Table cell boundaries; emphasis never continues into the next cell
+		if (char === '|' && isTableRow) {
+			const end = i + (matchAt(/\|[ \t]*/y, text, i) ?? '|').length;
+			while (i > textStart && (text[i - 1] === ' ' || text[i - 1] === '\t')) i--;
+			pushToken('table-pipe', end);
+			continue;
+		}
+
+		// Inline Code (`code`, ``co`de``)
+		if (char === '`') {
+			const runLength = countRun(text, i);
+			const isUnclosed = (unclosedBackticks.get(runLength) ?? Infinity) <= i;
+			const closeIndex = isUnclosed ? -1 : findClosingBackticks(text, i + runLength, runLength);
+			if (closeIndex !== -1) {
+				pushToken('code', closeIndex + runLength);
+			} else {
+				// Unclosed backticks are plain text
+				unclosedBackticks.set(runLength, i);
+				i += runLength;
+			}
+			continue;
+		}
+
+		// Inline LaTeX ($...$)
+		if (char === '$') {
+			const mathMatch = matchAt(/\$(?:\\.|[^$\\])*\$/y, text, i);
+			if (mathMatch) {
+				pushToken('math', i + mathMatch.length);
+			} else {
+				i++;
+			}
+			continue;
+		}
+
+		// Obsidian comments (%% hidden %%)
+		if (char === '%' && text[i + 1] === '%' && settings.skipComments) {
+			const end = text.indexOf('%%', i + 2);
+			if (end !== -1) {
+				pushToken('comment', end + 2);
+				continue;
+			}
+		}
+
+		// Wikilinks and embeds ([[链接|别名]], ![[embed]])
+		if ((char === '[' || char === '!') && settings.skipWikilinks) {
+			const open = char === '!' ? i + 1 : i;
+			if (text.startsWith('[[', open)) {
+				if (wikilinkStop < open + 2) wikilinkStop = findWikilinkStop(text, open + 2);
+				if (wikilinkStop > open + 2 && text.startsWith(']]', wikilinkStop)) {
+					pushToken('wikilink', wikilinkStop + 2);
+					continue;
+				}
+			}
+		}
+
+		// Footnote references ([^1])
+		if (char === '[' && text[i + 1] === '^' && settings.skipFootnotes) {
+			const footnoteMatch = matchAt(/\[\^[^\]\s]+\]/y, text, i);
+			if (footnoteMatch) {
+				pushToken('footnote', i + footnoteMatch.length);
+				continue;
+			}
+		}
+
+		// Markdown link destinations ([text](url "title")); the link text stays editable
+		if (char === ']' && text[i + 1] === '(' && settings.skipLinkUrls) {
+			closingParentheses ??= matchParentheses(text);
+			const end = closingParentheses.get(i + 1) ?? -1;
+			if (end !== -1) {
+				pushToken('link-url', end + 1);
+				continue;
+			}
+		}
+
+		// Raw HTML tags, HTML comments and autolinks (<span class="x">, <!-- -->, <https://...>)
+		if (char === '<' && settings.skipHtml) {
+			if (text.startsWith('<!--', i)) {
+				const end = lastCommentEnd >= i + 4 ? text.indexOf('-->', i + 4) : -1;
+				if (end !== -1) {
+					pushToken('html', end + 3);
+					continue;
+				}
+			}
+			const htmlMatch = matchAt(/<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>|<[A-Za-z][A-Za-z0-9+.-]*:[^\s<>]*>/y, text, i);
+			if (htmlMatch) {
+				pushToken('html', i + htmlMatch.length);
+				continue;
+			}
+		}
+
+		// Tags (#标签, #nested/tag) start after whitespace or at the start of a line
+		if (char === '#' && settings.skipTags && /^\s?$/.test(text[i - 1] ?? '')) {
+			const tagMatch = matchAt(/#[\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*/uy, text, i);
+			if (tagMatch) {
+				pushToken('tag', i + tagMatch.length);
+				continue;
+			}
+		}
+
+		// Block IDs (^abc-123) at the end of a line
+		if (char === '^' && settings.skipBlockIds && /^\s?$/.test(text[i - 1] ?? '')) {
+			const blockIdMatch = matchAt(/\^[A-Za-z0-9-]+(?=[ \t]*(?:\n|$))/y, text, i);
+			if (blockIdMatch) {
+				pushToken('block-id', i + blockIdMatch.length);
+				continue;
+			}
+		}
+
+		// Bare URLs, so '_' and '*' in paths and queries never toggle emphasis
+		if (char === 'h' && !/[A-Za-z0-9]/.test(text[i - 1] ?? '')) {
+			const urlMatch = matchAt(/https?:\/\/[A-Za-z0-9\-._~:/?#[\]@!$&'*+,;=%]+/y, text, i);
+			if (urlMatch) {
+				pushToken('url', i + urlMatch.length);
+				continue;
+			}
+		}
+
+		i++;
+	}
+
+	if (i > textStart) {
+		tokens.push({ type: 'text', text: text.slice(textStart, i) });
+	}
+	return tokens;
+}
+
+/**
+ * Match a sticky regex at the given index
+ */
+function matchAt(regex: RegExp, text: string, index: number): string | null {
+	regex.lastIndex = index;
+	return regex.exec(text)?.[0] ?? null;
+}
+
+/**
+ * Count how many times the character at index repeats consecutively
+ */
+export function countRun(text: string, index: number): number {
+	let length = 1;
+	while (text[index + length] === text[index]) length++;
+	return length;
+}
+
+/**
+ * Pair every '(' with the ')' closing it on the same line, allowing balanced
+ * parentheses inside a URL; escaped parentheses don't count
+ */
+function matchParentheses(text: string): Map<number, number> {
+	const matches = new Map<number, number>();
+	const open: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === '\\') {
+			i++;
+		} else if (char === '(') {
+			open.push(i);
+		} else if (char === ')') {
+			const start = open.pop();
+			if (start !== undefined) matches.set(start, i);
+		} else if (char === '\n') {
+			open.length = 0;
+		}
+	}
+	return matches;
+}
+
+/**
+ * Offset of the first ']' or line break at or after index, or the end of the text:
+ * the content of a wikilink ends there
+ */
+function findWikilinkStop(text: string, index: number): number {
+	for (let i = index; i < text.length; i++) {
+		if (text[i] === ']' || text[i] === '\n') return i;
+	}
+	return text.length;
+}
+
+function findClosingBackticks(text: string, from: number, runLength: number): number {
+	let i = from;
+	while (i < text.length) {
+		if (text[i] !== '`') {
+			i++;
+			continue;
+		}
+		const length = countRun(text, i);
+		if (length === runLength) return i;
+		i += length;
+	}
+	return -1;
+}
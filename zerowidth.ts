@@ -0,0 +1,94 @@
+/**
+ * Clean up zero-width spaces inserted by the useZeroWidthSpace option
+ *
+ * The plugin only ever inserts spacing right next to a formatting marker: a paired
+ * emphasis, strikethrough or highlight delimiter, or an inline code span. Only
+ * zero-width spaces there are touched; any others were put there by the user.
+ */
+
+import { charAt, charBefore, isCjk } from './cjk';
+import { withLfLineEndings } from './lineendings';
+import { SmartSpacingSettings, findMarkerBoundaries } from './processor';
+import { InlineToken, tokenize } from './tokenizer';
+
+/**
+ * - 'remove': delete zero-width spaces next to markers
+ * - 'to-space': turn them into regular spaces
+ * - 'from-space': the reverse, turn single spaces between CJK text and a marker into zero-width spaces
+ */
+export type ZeroWidthConversion = 'remove' | 'to-space' | 'from-space';
+
+const ZERO_WIDTH_SPACE = '\u200B';
+
+/**
+ * Apply the conversion to every prose paragraph; code, math and other protected content is left alone
+ */
+export function convertZeroWidthSpaces(text: string, conversion: ZeroWidthConversion, settings: SmartSpacingSettings): string {
+	return withLfLineEndings(text, lf => convertText(lf, conversion, settings));
+}
+
+function convertText(text: string, conversion: ZeroWidthConversion, settings: SmartSpacingSettings): string {
+	const boundaries = findMarkerBoundaries(text, settings);
+	let offset = 0;
+	return tokenize(text, settings)
+		.map(block => {
+			const blockText = block.type === 'paragraph' ? block.tokens.map(token => token.text).join('') : block.text;
+			const start = offset;
+			offset += blockText.length;
+			return block.type === 'paragraph' ? convertParagraph(block.tokens, text, start, boundaries, conversion, settings) : blockText;
+		})
+		.join('');
+}
+
+function convertParagraph(
+	tokens: InlineToken[],
+	text: string,
+	start: number,
+	boundaries: Set<number>,
+	conversion: ZeroWidthConversion,
+	settings: SmartSpacingSettings,
+): string {
+	let result = '';
+	let offset = start;
+
+	for (const token of tokens) {
+		const end = offset + token.text.length;
+		if (token.type !== 'text') {
+			result += token.text;
+			offset = end;
+			continue;
+		}
+		for (let i = offset; i < end; i++) {
+			result += convertChar(text, i, boundaries, conversion, settings);
+		}
+		offset = end;
+	}
+
+	return result;
+}
+
+/**
+ * A marker ends right before the character at index when index is a boundary,
+ * and one starts right after it when index + 1 is
+ */
+function convertChar(text: string, index: number, boundaries: Set<number>, conversion: ZeroWidthConversion, settings: SmartSpacingSettings): string {
+	const char = text[index];
+	const afterMarker = boundaries.has(index);
+	const beforeMarker = boundaries.has(index + 1);
+
+	if (conversion === 'from-space') {
+		if (char !== ' ') return char;
+		const isBoundary = (afterMarker && isCjk(charAt(text, index + 1), settings.cjkScripts))
+			|| (isCjk(charBefore(text, index), settings.cjkScripts) && beforeMarker);
+		return isBoundary ? ZERO_WIDTH_SPACE : char;
+	}
+
+	if (char !== ZERO_WIDTH_SPACE || !(afterMarker || beforeMarker)) return char;
+	if (conversion === 'remove') return '';
+	// Next to a space already separating the text and the marker, a second one would be too many
+	return isSpace(charBefore(text, index)) || isSpace(charAt(text, index + 1)) ? '' : ' ';
+}
+
+function isSpace(char: string | undefined): boolean {
+	return !!char && /\s/.test(char);
+}